@@ -0,0 +1,7 @@
+import { AssetRegistry } from "@/components/asset-registry"
+import { requirePageStaff } from "@/lib/auth/guard"
+
+export default async function AssetRegistryPage() {
+  await requirePageStaff("assets:read")
+  return <AssetRegistry />
+}
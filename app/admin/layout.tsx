@@ -0,0 +1,17 @@
+import type React from "react"
+import type { Metadata } from "next"
+import { AdminShell } from "@/components/admin-shell"
+import { requirePageStaff } from "@/lib/auth/guard"
+import { toStaffSummary } from "@/lib/auth/staff"
+
+export const dynamic = "force-dynamic"
+
+export const metadata: Metadata = {
+  title: "Admin · SF Garbage Reporter",
+  robots: { index: false },
+}
+
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  const staff = await requirePageStaff("reports:read")
+  return <AdminShell staff={toStaffSummary(staff)}>{children}</AdminShell>
+}
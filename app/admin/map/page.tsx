@@ -0,0 +1,8 @@
+import { ReportsMap } from "@/components/reports-map"
+import { requirePageStaff } from "@/lib/auth/guard"
+import { neighborhoodNames } from "@/lib/geo/enrichment"
+
+export default async function AdminMapPage() {
+  await requirePageStaff("reports:read")
+  return <ReportsMap neighborhoods={neighborhoodNames()} />
+}
@@ -0,0 +1,10 @@
+import { ReportsDashboard } from "@/components/reports-dashboard"
+import { requirePageStaff } from "@/lib/auth/guard"
+import { neighborhoodNames } from "@/lib/geo/enrichment"
+
+// Report list for city operations. The neighborhood filter offers every
+// neighborhood in the bundled layer, which is too large to ship to the browser.
+export default async function AdminReportsPage() {
+  await requirePageStaff("reports:read")
+  return <ReportsDashboard neighborhoods={neighborhoodNames()} />
+}
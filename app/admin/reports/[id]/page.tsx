@@ -0,0 +1,13 @@
+import { notFound } from "next/navigation"
+import { ReportDetail } from "@/components/report-detail"
+import { canSeeReport, requirePageStaff } from "@/lib/auth/guard"
+import { getReport } from "@/lib/reports"
+
+export default async function AdminReportPage({ params }: { params: Promise<{ id: string }> }) {
+  const staff = await requirePageStaff("reports:read")
+  const { id } = await params
+  // Reports outside a department admin's department look the same as missing ones
+  const report = await getReport(id)
+  if (!report || !canSeeReport(staff, report)) notFound()
+  return <ReportDetail id={id} />
+}
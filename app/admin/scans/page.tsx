@@ -0,0 +1,7 @@
+import { ScanAnalytics } from "@/components/scan-analytics"
+import { requirePageStaff } from "@/lib/auth/guard"
+
+export default async function ScanAnalyticsPage() {
+  await requirePageStaff("assets:read")
+  return <ScanAnalytics />
+}
@@ -0,0 +1,7 @@
+import { StaffDirectory } from "@/components/staff-directory"
+import { requirePageStaff } from "@/lib/auth/guard"
+
+export default async function StaffPage() {
+  await requirePageStaff("staff:manage")
+  return <StaffDirectory />
+}
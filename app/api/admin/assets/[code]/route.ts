@@ -0,0 +1,55 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { assetFieldsSchema, toNewAsset } from "@/lib/asset-import"
+import { getAssetByCode, updateAsset } from "@/lib/assets"
+import { requireStaff } from "@/lib/auth/guard"
+
+function notFound(code: string) {
+  return NextResponse.json(
+    { status: "error", code: "not_found", message: `Code ${code} is not registered` },
+    { status: 404 },
+  )
+}
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ code: string }> }) {
+  const auth = await requireStaff("assets:read")
+  if (auth.response) return auth.response
+
+  const { code } = await params
+  const asset = await getAssetByCode(code)
+  return asset ? NextResponse.json({ status: "success", asset }) : notFound(code)
+}
+
+// Partial update, e.g. `{ "status": "retired" }`. The code itself cannot change
+// because it is printed on the sticker.
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ code: string }> }) {
+  const auth = await requireStaff("assets:write")
+  if (auth.response) return auth.response
+
+  const { code } = await params
+  const existing = await getAssetByCode(code)
+  if (!existing) return notFound(code)
+
+  // Fields left out of the body keep their current values
+  const body = await request.json().catch(() => null)
+  const fields = assetFieldsSchema.safeParse({
+    code: existing.code,
+    type: existing.type,
+    lat: existing.lat,
+    lon: existing.lon,
+    label: existing.label ?? undefined,
+    department_id: existing.departmentId ?? undefined,
+    install_date: existing.installDate ?? undefined,
+    status: existing.status,
+    ...body,
+  })
+  if (!fields.success) {
+    return NextResponse.json(
+      { status: "error", code: "bad_request", message: fields.error.issues[0]?.message ?? "Invalid asset" },
+      { status: 400 },
+    )
+  }
+
+  const { code: _code, ...update } = toNewAsset(fields.data)
+  const asset = await updateAsset(existing.code, update)
+  return NextResponse.json({ status: "success", asset })
+}
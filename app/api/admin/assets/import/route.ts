@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { importAssetsCsv } from "@/lib/asset-import"
+import { requireStaff } from "@/lib/auth/guard"
+import { logWithCorrelation } from "@/lib/logger"
+
+// Accepts the CSV as the raw body (text/csv) or as a `file` part of a multipart form
+export async function POST(request: NextRequest) {
+  const correlationId = crypto.randomUUID()
+
+  const auth = await requireStaff("assets:write")
+  if (auth.response) return auth.response
+
+  let text: string
+  if ((request.headers.get("content-type") || "").startsWith("multipart/form-data")) {
+    const file = (await request.formData()).get("file")
+    if (!(file instanceof Blob)) {
+      return NextResponse.json(
+        { status: "error", code: "bad_request", message: "Attach the CSV as `file`" },
+        { status: 400 },
+      )
+    }
+    text = await file.text()
+  } else {
+    text = await request.text()
+  }
+
+  const result = await importAssetsCsv(text)
+  if (!result.ok) {
+    logWithCorrelation(correlationId, "warn", "Asset import rejected", { errors: result.errors.length })
+    return NextResponse.json(
+      {
+        status: "error",
+        code: "invalid_csv",
+        message: `${result.errors.length} row(s) need fixing. Nothing was imported.`,
+        errors: result.errors,
+      },
+      { status: 400 },
+    )
+  }
+
+  logWithCorrelation(correlationId, "info", "Assets imported", { created: result.created, updated: result.updated })
+  return NextResponse.json({ status: "success", created: result.created, updated: result.updated })
+}
@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { assetFieldsSchema, toNewAsset } from "@/lib/asset-import"
+import { ASSET_STATUSES } from "@/lib/asset-types"
+import { createAsset, getAssetByCode, listAssets } from "@/lib/assets"
+import { requireStaff } from "@/lib/auth/guard"
+
+const MAX_PAGE_SIZE = 500
+
+const listQuerySchema = z.object({
+  q: z.string().optional(),
+  status: z.enum(ASSET_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+export async function GET(request: NextRequest) {
+  const auth = await requireStaff("assets:read")
+  if (auth.response) return auth.response
+
+  const query = listQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!query.success) {
+    return NextResponse.json({ status: "error", code: "bad_request", message: "Invalid query" }, { status: 400 })
+  }
+  const { q, status, limit, offset } = query.data
+  const { assets, total } = await listAssets({ query: q, status, limit, offset })
+  return NextResponse.json({ status: "success", assets, total })
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await requireStaff("assets:write")
+  if (auth.response) return auth.response
+
+  const fields = assetFieldsSchema.safeParse(await request.json().catch(() => null))
+  if (!fields.success) {
+    return NextResponse.json(
+      { status: "error", code: "bad_request", message: fields.error.issues[0]?.message ?? "Invalid asset" },
+      { status: 400 },
+    )
+  }
+  if (await getAssetByCode(fields.data.code)) {
+    return NextResponse.json(
+      { status: "error", code: "duplicate_code", message: `Code ${fields.data.code} is already registered` },
+      { status: 409 },
+    )
+  }
+
+  const asset = await createAsset(toNewAsset(fields.data))
+  return NextResponse.json({ status: "success", asset }, { status: 201 })
+}
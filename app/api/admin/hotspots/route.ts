@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { reportScope, requireStaff } from "@/lib/auth/guard"
+import { listHotspots } from "@/lib/hotspots"
+
+const listQuerySchema = z.object({
+  department: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+})
+
+// Hotspots from the latest batch run, highest score first
+export async function GET(request: NextRequest) {
+  const auth = await requireStaff("reports:read")
+  if (auth.response) return auth.response
+
+  const query = listQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!query.success) {
+    return NextResponse.json({ status: "error", code: "bad_request", message: "Invalid query" }, { status: 400 })
+  }
+  // Department admins only see hotspots whose reports mostly went to their department
+  const departmentId = reportScope(auth.staff) ?? query.data.department
+  const { computedAt, hotspots } = await listHotspots({ departmentId, limit: query.data.limit })
+  return NextResponse.json({ status: "success", computedAt, hotspots })
+}
@@ -0,0 +1,83 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getAssetByCode, listAssets, type Asset } from "@/lib/assets"
+import { requireStaff } from "@/lib/auth/guard"
+import { posterUrls, renderPostersPdf, renderPosterSvg } from "@/lib/posters"
+import { publicBaseUrl } from "@/lib/public-url"
+
+// One PDF page per poster; larger print runs are split across requests
+const MAX_POSTERS = 500
+
+// GET ?codes=BIN-1,BIN-2&format=pdf|svg. Without `codes`, prints every active asset.
+// SVG output is a single poster, so it needs exactly one code.
+export async function GET(request: NextRequest) {
+  const auth = await requireStaff("assets:read")
+  if (auth.response) return auth.response
+
+  // Printed URLs must not depend on which host an admin happened to use
+  const baseUrl = publicBaseUrl(request)
+  if (!baseUrl) {
+    return NextResponse.json(
+      { status: "error", code: "server_error", message: "PUBLIC_BASE_URL must be set to print posters" },
+      { status: 500 },
+    )
+  }
+
+  const format = request.nextUrl.searchParams.get("format") || "pdf"
+  const codes = (request.nextUrl.searchParams.get("codes") || "")
+    .split(",")
+    .map((code) => code.trim())
+    .filter(Boolean)
+
+  if (format !== "pdf" && format !== "svg") {
+    return NextResponse.json(
+      { status: "error", code: "bad_request", message: "format must be pdf or svg" },
+      { status: 400 },
+    )
+  }
+  if (format === "svg" && codes.length !== 1) {
+    return NextResponse.json(
+      { status: "error", code: "bad_request", message: "SVG posters need exactly one code" },
+      { status: 400 },
+    )
+  }
+  if (codes.length > MAX_POSTERS) {
+    return NextResponse.json(
+      { status: "error", code: "bad_request", message: `At most ${MAX_POSTERS} posters per request` },
+      { status: 400 },
+    )
+  }
+
+  let assets: Asset[]
+  if (codes.length > 0) {
+    const found = await Promise.all(codes.map((code) => getAssetByCode(code)))
+    const missing = codes.filter((_, index) => !found[index])
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { status: "error", code: "not_found", message: `Not registered: ${missing.join(", ")}` },
+        { status: 404 },
+      )
+    }
+    assets = found as Asset[]
+  } else {
+    assets = (await listAssets({ status: "active", limit: MAX_POSTERS })).assets
+  }
+
+  const posters = assets.map((asset) => ({ asset, urls: posterUrls(baseUrl, asset.code) }))
+
+  if (format === "svg") {
+    return new NextResponse(renderPosterSvg(posters[0].asset, posters[0].urls), {
+      headers: {
+        "Content-Type": "image/svg+xml",
+        "Content-Disposition": `attachment; filename="poster-${posters[0].asset.code}.svg"`,
+      },
+    })
+  }
+
+  const pdf = await renderPostersPdf(posters)
+  return new NextResponse(Buffer.from(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${posters.length === 1 ? `poster-${posters[0].asset.code}` : "posters"}.pdf"`,
+    },
+  })
+}
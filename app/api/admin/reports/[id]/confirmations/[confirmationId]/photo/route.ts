@@ -0,0 +1,38 @@
+import path from "path"
+import { type NextRequest, NextResponse } from "next/server"
+import { canSeeReport, requireStaff } from "@/lib/auth/guard"
+import { getConfirmation } from "@/lib/confirmations"
+import { readPhoto } from "@/lib/photos"
+import { getReport } from "@/lib/reports"
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+}
+
+// The fresh photo sent with a "still there" confirmation
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; confirmationId: string }> },
+) {
+  const auth = await requireStaff("reports:read")
+  if (auth.response) return auth.response
+
+  const { id, confirmationId } = await params
+  const [report, confirmation] = await Promise.all([getReport(id), getConfirmation(confirmationId)])
+  const photoRef =
+    report && canSeeReport(auth.staff, report) && confirmation?.reportId === report.id ? confirmation.photoRef : null
+  if (!photoRef) {
+    return NextResponse.json({ status: "error", code: "not_found", message: "Photo not found" }, { status: 404 })
+  }
+
+  const photo = await readPhoto(photoRef)
+  return new NextResponse(new Uint8Array(photo), {
+    headers: {
+      "Content-Type": CONTENT_TYPES[path.extname(photoRef)] ?? "application/octet-stream",
+      // As private as the report's own photos
+      "Cache-Control": "private, no-store",
+    },
+  })
+}
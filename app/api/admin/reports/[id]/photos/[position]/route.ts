@@ -0,0 +1,33 @@
+import path from "path"
+import { type NextRequest, NextResponse } from "next/server"
+import { canSeeReport, requireStaff } from "@/lib/auth/guard"
+import { readPhoto } from "@/lib/photos"
+import { getReport } from "@/lib/reports"
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+}
+
+// A report photo by its 1-based position, as numbered in the report email
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string; position: string }> }) {
+  const auth = await requireStaff("reports:read")
+  if (auth.response) return auth.response
+
+  const { id, position } = await params
+  const report = await getReport(id)
+  const photoRef = report && canSeeReport(auth.staff, report) ? report.photoRefs[Number(position) - 1] : undefined
+  if (!photoRef) {
+    return NextResponse.json({ status: "error", code: "not_found", message: "Photo not found" }, { status: 404 })
+  }
+
+  const photo = await readPhoto(photoRef)
+  return new NextResponse(new Uint8Array(photo), {
+    headers: {
+      "Content-Type": CONTENT_TYPES[path.extname(photoRef)] ?? "application/octet-stream",
+      // Photos can show people and license plates; never let shared caches keep them
+      "Cache-Control": "private, no-store",
+    },
+  })
+}
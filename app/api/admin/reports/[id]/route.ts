@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getAsset, toAssetSummary } from "@/lib/assets"
+import { canSeeReport, requireStaff } from "@/lib/auth/guard"
+import { listConfirmations } from "@/lib/confirmations"
+import { STAFF_REPORT_STATUSES } from "@/lib/report-types"
+import { getReport, listDuplicates, updateReportStatus, type Report } from "@/lib/reports"
+
+const updateSchema = z.object({ status: z.enum(STAFF_REPORT_STATUSES) })
+
+const toLink = (report: Report) => ({ id: report.id, reportNumber: report.reportNumber, createdAt: report.createdAt })
+
+function notFound() {
+  return NextResponse.json({ status: "error", code: "not_found", message: "Report not found" }, { status: 404 })
+}
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireStaff("reports:read")
+  if (auth.response) return auth.response
+
+  const { id } = await params
+  const report = await getReport(id)
+  // Reports outside a department admin's department look the same as missing ones
+  if (!report || !canSeeReport(auth.staff, report)) return notFound()
+  const asset = report.assetId ? await getAsset(report.assetId) : null
+  // Duplicates are always filed to the same department as the report they repeat
+  const original = report.duplicateOf ? await getReport(report.duplicateOf) : null
+  const duplicates = await listDuplicates(report.id)
+  const confirmations = await listConfirmations(report.id)
+  return NextResponse.json({
+    status: "success",
+    report,
+    asset: asset ? toAssetSummary(asset) : null,
+    duplicateOf: original ? toLink(original) : null,
+    duplicates: duplicates.map(toLink),
+    confirmations: confirmations.map(({ id, createdAt, photoRef }) => ({ id, createdAt, hasPhoto: photoRef !== null })),
+  })
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireStaff("reports:update")
+  if (auth.response) return auth.response
+
+  const body = updateSchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    return NextResponse.json({ status: "error", code: "bad_request", message: "Invalid status" }, { status: 400 })
+  }
+  const { id } = await params
+  const report = await getReport(id)
+  if (!report || !canSeeReport(auth.staff, report)) return notFound()
+
+  await updateReportStatus(id, body.data.status)
+  return NextResponse.json({ status: "success", report: await getReport(id) })
+}
@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireStaff } from "@/lib/auth/guard"
+import { reportFilterSchema, toReportFilter } from "@/lib/report-filter"
+import { listReportPoints } from "@/lib/reports"
+
+// Enough for months of reports; beyond this the browser spends more time
+// clustering than the extra points are worth
+const MAX_POINTS = 5000
+
+// Every report matching the filters as a map point, newest first
+export async function GET(request: NextRequest) {
+  const auth = await requireStaff("reports:read")
+  if (auth.response) return auth.response
+
+  const query = reportFilterSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!query.success) {
+    return NextResponse.json({ status: "error", code: "bad_request", message: "Invalid query" }, { status: 400 })
+  }
+  const { points, total } = await listReportPoints({ ...toReportFilter(query.data, auth.staff), limit: MAX_POINTS })
+  return NextResponse.json({ status: "success", points, total })
+}
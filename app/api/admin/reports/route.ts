@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { reportScope, requireStaff } from "@/lib/auth/guard"
+import { reportFilterSchema, toReportFilter } from "@/lib/report-filter"
+import { REPORT_SORTS, STAFF_REPORT_STATUSES } from "@/lib/report-types"
+import { listReports, summarizeReports, updateReportStatuses } from "@/lib/reports"
+
+const MAX_PAGE_SIZE = 200
+// Bulk changes are made from one page of the list at a time
+const MAX_BULK_IDS = MAX_PAGE_SIZE
+
+const listQuerySchema = reportFilterSchema.extend({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  sort: z.enum(REPORT_SORTS).default("newest"),
+})
+
+const bulkUpdateSchema = z.object({
+  ids: z.array(z.string()).min(1).max(MAX_BULK_IDS),
+  status: z.enum(STAFF_REPORT_STATUSES),
+})
+
+// The page of reports matching the filters, plus counts over every match for the dashboard chart
+export async function GET(request: NextRequest) {
+  const auth = await requireStaff("reports:read")
+  if (auth.response) return auth.response
+
+  const query = listQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!query.success) {
+    return NextResponse.json({ status: "error", code: "bad_request", message: "Invalid query" }, { status: 400 })
+  }
+  const { limit, offset, sort, ...filterQuery } = query.data
+  const filter = toReportFilter(filterQuery, auth.staff)
+  const [{ reports, total }, summary] = await Promise.all([
+    listReports({ ...filter, limit, offset, sort }),
+    summarizeReports(filter),
+  ])
+  return NextResponse.json({ status: "success", reports, total, summary })
+}
+
+// Bulk status change, e.g. `{ "ids": [...], "status": "resolved" }`
+export async function PATCH(request: NextRequest) {
+  const auth = await requireStaff("reports:update")
+  if (auth.response) return auth.response
+
+  const body = bulkUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    return NextResponse.json(
+      { status: "error", code: "bad_request", message: body.error.issues[0]?.message ?? "Invalid update" },
+      { status: 400 },
+    )
+  }
+  // Reports outside a department admin's department are skipped rather than rejected
+  const updated = await updateReportStatuses(body.data.ids, body.data.status, reportScope(auth.staff))
+  return NextResponse.json({ status: "success", updated })
+}
@@ -0,0 +1,42 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getAssetByCode } from "@/lib/assets"
+import { requireStaff } from "@/lib/auth/guard"
+import { getScanFunnel, listAssetScanStats, listSilentAssets } from "@/lib/scans"
+
+const querySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+  // Limits the funnel to one asset; the per-asset tables always cover all of them
+  code: z.string().optional(),
+})
+
+export async function GET(request: NextRequest) {
+  const auth = await requireStaff("assets:read")
+  if (auth.response) return auth.response
+
+  const query = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!query.success) {
+    return NextResponse.json({ status: "error", code: "bad_request", message: "Invalid query" }, { status: 400 })
+  }
+  const { days, code } = query.data
+  const since = new Date(Date.now() - days * 24 * 60 * 60_000).toISOString()
+
+  let assetId: string | undefined
+  if (code) {
+    const asset = await getAssetByCode(code)
+    if (!asset) {
+      return NextResponse.json(
+        { status: "error", code: "not_found", message: `Code ${code} is not registered` },
+        { status: 404 },
+      )
+    }
+    assetId = asset.id
+  }
+
+  const [funnel, assets, silent] = await Promise.all([
+    getScanFunnel({ since, assetId }),
+    listAssetScanStats({ since }),
+    listSilentAssets({ since }),
+  ])
+  return NextResponse.json({ status: "success", since, funnel, assets, silent })
+}
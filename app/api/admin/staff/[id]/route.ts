@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireStaff } from "@/lib/auth/guard"
+import { STAFF_ROLES, isDepartmentScoped } from "@/lib/auth/roles"
+import { getStaffUser, updateStaffUser } from "@/lib/auth/staff"
+import { getDepartment } from "@/lib/departments"
+
+const staffUpdateSchema = z.object({
+  name: z.string().trim().max(100).nullable().optional(),
+  role: z.enum(STAFF_ROLES).optional(),
+  department_id: z
+    .string()
+    .nullable()
+    .optional()
+    .refine((id) => !id || getDepartment(id), "Unknown department"),
+  disabled: z.boolean().optional(),
+})
+
+function badRequest(message: string) {
+  return NextResponse.json({ status: "error", code: "bad_request", message }, { status: 400 })
+}
+
+// Partial update, e.g. `{ "disabled": true }`. The email address cannot change:
+// it is what both sign-in methods match on, so a new address is a new account.
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireStaff("staff:manage")
+  if (auth.response) return auth.response
+
+  const { id } = await params
+  const existing = await getStaffUser(id)
+  if (!existing) {
+    return NextResponse.json(
+      { status: "error", code: "not_found", message: "No such staff member" },
+      { status: 404 },
+    )
+  }
+
+  const fields = staffUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!fields.success) return badRequest(fields.error.issues[0]?.message ?? "Invalid staff member")
+  const { name, role, department_id: departmentId, disabled } = fields.data
+
+  // Otherwise the last super admin could lock everyone out of staff management
+  if (id === auth.staff.id && ((role && role !== existing.role) || disabled)) {
+    return badRequest("You cannot change your own role or disable yourself")
+  }
+  const departmentAfter = departmentId === undefined ? existing.departmentId : departmentId
+  if (isDepartmentScoped(role ?? existing.role) && !departmentAfter) {
+    return badRequest("Department admins need a department")
+  }
+
+  const user = await updateStaffUser(id, { name: name === "" ? null : name, role, departmentId, disabled })
+  return NextResponse.json({ status: "success", user })
+}
@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { requireStaff } from "@/lib/auth/guard"
+import { STAFF_ROLES, isDepartmentScoped } from "@/lib/auth/roles"
+import { createStaffUser, getStaffUserByEmail, listStaffUsers } from "@/lib/auth/staff"
+import { getDepartment } from "@/lib/departments"
+
+const newStaffSchema = z
+  .object({
+    email: z.string().trim().email("Enter a valid email address").max(254),
+    name: z.string().trim().max(100).optional(),
+    role: z.enum(STAFF_ROLES),
+    department_id: z.string().optional(),
+  })
+  .refine((staff) => !staff.department_id || getDepartment(staff.department_id), {
+    message: "Unknown department",
+    path: ["department_id"],
+  })
+  .refine((staff) => !isDepartmentScoped(staff.role) || staff.department_id, {
+    message: "Department admins need a department",
+    path: ["department_id"],
+  })
+
+export async function GET() {
+  const auth = await requireStaff("staff:manage")
+  if (auth.response) return auth.response
+
+  return NextResponse.json({ status: "success", staff: await listStaffUsers() })
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await requireStaff("staff:manage")
+  if (auth.response) return auth.response
+
+  const fields = newStaffSchema.safeParse(await request.json().catch(() => null))
+  if (!fields.success) {
+    return NextResponse.json(
+      { status: "error", code: "bad_request", message: fields.error.issues[0]?.message ?? "Invalid staff member" },
+      { status: 400 },
+    )
+  }
+  if (await getStaffUserByEmail(fields.data.email)) {
+    return NextResponse.json(
+      { status: "error", code: "duplicate_email", message: `${fields.data.email} already has an account` },
+      { status: 409 },
+    )
+  }
+
+  const user = await createStaffUser({
+    email: fields.data.email,
+    name: fields.data.name || null,
+    role: fields.data.role,
+    departmentId: fields.data.department_id || null,
+  })
+  return NextResponse.json({ status: "success", user }, { status: 201 })
+}
@@ -0,0 +1,11 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { SESSION_COOKIE, deleteSession } from "@/lib/auth/sessions"
+
+export async function POST(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value
+  if (token) await deleteSession(token)
+
+  const response = NextResponse.redirect(new URL("/login", request.url), 303)
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { createLoginToken } from "@/lib/auth/magic-link"
+import { findStaffForLogin } from "@/lib/auth/staff"
+import { sendMagicLinkEmail } from "@/lib/email"
+import { logWithCorrelation } from "@/lib/logger"
+import { publicBaseUrl } from "@/lib/public-url"
+import { RATE_LIMIT_RULES, checkRateLimits, clientIp } from "@/lib/rate-limit"
+
+const requestSchema = z.object({ email: z.string().trim().email().max(254) })
+
+// Emails a sign-in link to staff. The response is the same whether or not the
+// address has an account, so the form cannot be used to find out who is staff.
+export async function POST(request: NextRequest) {
+  const correlationId = crypto.randomUUID()
+  const baseUrl = publicBaseUrl(request)
+  if (!baseUrl) {
+    logWithCorrelation(correlationId, "error", "PUBLIC_BASE_URL is not set, so sign-in links cannot be sent")
+    return NextResponse.json(
+      { status: "error", code: "server_error", message: "Email sign-in is not available" },
+      { status: 500 },
+    )
+  }
+
+  const body = requestSchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    return NextResponse.json(
+      { status: "error", code: "bad_request", message: "Please enter a valid email address" },
+      { status: 400 },
+    )
+  }
+  const { email } = body.data
+
+  const ip = clientIp(request.headers)
+  const rateLimit = await checkRateLimits([
+    { rule: RATE_LIMIT_RULES.loginEmail, value: email.toLowerCase() },
+    ...(ip ? [{ rule: RATE_LIMIT_RULES.loginIp, value: ip }] : []),
+  ])
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      { status: "error", code: "rate_limited", message: "Too many sign-in requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(rateLimit.retryAfterSeconds) } },
+    )
+  }
+
+  const staff = await findStaffForLogin(email)
+  if (staff) {
+    // The link opens a page that signs in on a button press, because mail
+    // scanners follow links in incoming email and would use up the token
+    const token = await createLoginToken(staff.email)
+    const url = new URL("/login/verify", baseUrl)
+    url.searchParams.set("token", token)
+    await sendMagicLinkEmail(staff.email, url.toString(), correlationId)
+  } else {
+    logWithCorrelation(correlationId, "info", "Sign-in link requested for unknown address")
+  }
+
+  return NextResponse.json({ status: "success" })
+}
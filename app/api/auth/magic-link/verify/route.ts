@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { consumeLoginToken } from "@/lib/auth/magic-link"
+import { SESSION_COOKIE, createSession, sessionCookieOptions } from "@/lib/auth/sessions"
+import { findStaffForLogin, recordStaffLogin } from "@/lib/auth/staff"
+
+// Form post from /login/verify. Redirects to /admin with a session, or back to
+// /login when the link is expired, used or no longer tied to an active account.
+export async function POST(request: NextRequest) {
+  const token = (await request.formData()).get("token")
+  const email = typeof token === "string" ? await consumeLoginToken(token) : null
+  const staff = email ? await findStaffForLogin(email) : null
+  if (!staff) {
+    return NextResponse.redirect(new URL("/login?error=link_expired", request.url), 303)
+  }
+
+  const session = await createSession(staff.id, "email")
+  await recordStaffLogin(staff.id)
+  const response = NextResponse.redirect(new URL("/admin", request.url), 303)
+  response.cookies.set(SESSION_COOKIE, session.token, sessionCookieOptions(session.expires))
+  return response
+}
@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { OIDC_COOKIE, finishOidcLogin, type OidcTransaction } from "@/lib/auth/oidc"
+import { SESSION_COOKIE, createSession, sessionCookieOptions } from "@/lib/auth/sessions"
+import { findStaffForLogin, recordStaffLogin } from "@/lib/auth/staff"
+import { logWithCorrelation } from "@/lib/logger"
+import { publicBaseUrl } from "@/lib/public-url"
+
+function loginError(request: NextRequest, error: string) {
+  const response = NextResponse.redirect(new URL(`/login?error=${error}`, request.url))
+  response.cookies.delete({ name: OIDC_COOKIE, path: "/api/auth/oidc" })
+  return response
+}
+
+export async function GET(request: NextRequest) {
+  const correlationId = crypto.randomUUID()
+  const code = request.nextUrl.searchParams.get("code")
+  const state = request.nextUrl.searchParams.get("state")
+  const cookie = request.cookies.get(OIDC_COOKIE)?.value
+  if (!code || !state || !cookie) {
+    return loginError(request, "sso_failed")
+  }
+
+  let email: string
+  try {
+    const transaction = JSON.parse(Buffer.from(cookie, "base64url").toString("utf8")) as OidcTransaction
+    // Must match the redirect URI sent from /api/auth/oidc/login
+    const baseUrl = publicBaseUrl(request)
+    if (!baseUrl) throw new Error("PUBLIC_BASE_URL is not set")
+    const redirectUri = new URL("/api/auth/oidc/callback", baseUrl).toString()
+    ;({ email } = await finishOidcLogin({ code, state, transaction, redirectUri }))
+  } catch (error: any) {
+    logWithCorrelation(correlationId, "warn", "Single sign-on failed", { error: error.message })
+    return loginError(request, "sso_failed")
+  }
+
+  const staff = await findStaffForLogin(email)
+  if (!staff) {
+    logWithCorrelation(correlationId, "info", "Single sign-on for an address without a staff account")
+    return loginError(request, "not_staff")
+  }
+
+  const session = await createSession(staff.id, "oidc")
+  await recordStaffLogin(staff.id)
+  const response = NextResponse.redirect(new URL("/admin", request.url))
+  response.cookies.set(SESSION_COOKIE, session.token, sessionCookieOptions(session.expires))
+  response.cookies.delete({ name: OIDC_COOKIE, path: "/api/auth/oidc" })
+  return response
+}
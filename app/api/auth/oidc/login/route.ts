@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { OIDC_COOKIE, isOidcEnabled, startOidcLogin } from "@/lib/auth/oidc"
+import { logWithCorrelation } from "@/lib/logger"
+import { publicBaseUrl } from "@/lib/public-url"
+
+// Sends the browser to the identity provider, keeping the state, nonce and PKCE
+// verifier in a short-lived cookie for the callback
+export async function GET(request: NextRequest) {
+  if (!isOidcEnabled()) {
+    return NextResponse.json(
+      { status: "error", code: "not_found", message: "Single sign-on is not configured" },
+      { status: 404 },
+    )
+  }
+
+  try {
+    const baseUrl = publicBaseUrl(request)
+    if (!baseUrl) throw new Error("PUBLIC_BASE_URL is not set")
+    const { url, transaction } = await startOidcLogin(new URL("/api/auth/oidc/callback", baseUrl).toString())
+    const response = NextResponse.redirect(url)
+    response.cookies.set(OIDC_COOKIE, Buffer.from(JSON.stringify(transaction)).toString("base64url"), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/api/auth/oidc",
+      maxAge: 10 * 60,
+    })
+    return response
+  } catch (error: any) {
+    logWithCorrelation(crypto.randomUUID(), "error", "Single sign-on unavailable", { error: error.message })
+    return NextResponse.redirect(new URL("/login?error=sso_failed", request.url))
+  }
+}
@@ -0,0 +1,42 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { geocode } from "@/lib/geo/geocode"
+import { describeLocation, reverseGeocode } from "@/lib/geo/reverse-geocode"
+
+// Lookups for the manual location picker: `?q=` resolves an intersection, `?lat=&lon=` describes a dropped pin. Both run offline.
+const querySchema = z.union([
+  z.object({ q: z.string().min(1).max(200) }),
+  z.object({ lat: z.coerce.number().min(-90).max(90), lon: z.coerce.number().min(-180).max(180) }),
+])
+
+export async function GET(request: NextRequest) {
+  const parsed = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { status: "error", code: "bad_request", message: "Provide an intersection (q) or coordinates (lat, lon)" },
+      { status: 400 },
+    )
+  }
+
+  if ("q" in parsed.data) {
+    const result = geocode(parsed.data.q)
+    if (!result) {
+      return NextResponse.json(
+        {
+          status: "error",
+          code: "not_found",
+          message: "Intersection not found. Try two cross streets like \"Market St & 2nd St\".",
+        },
+        { status: 404 },
+      )
+    }
+    return NextResponse.json({ status: "success", result })
+  }
+
+  const { lat, lon } = parsed.data
+  const result = reverseGeocode(lat, lon)
+  return NextResponse.json({
+    status: "success",
+    result: { lat, lon, label: result ? describeLocation(result) : null },
+  })
+}
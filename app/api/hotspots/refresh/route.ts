@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isCronAuthorized } from "@/lib/cron"
+import { refreshHotspots } from "@/lib/hotspots"
+import { logWithCorrelation } from "@/lib/logger"
+
+async function refresh(request: NextRequest) {
+  const correlationId = crypto.randomUUID()
+  const startTime = Date.now()
+
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ status: "error", code: "unauthorized", message: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const run = await refreshHotspots()
+    logWithCorrelation(correlationId, "info", "Hotspots refreshed", { ...run, duration: Date.now() - startTime })
+    return NextResponse.json({ status: "success", ...run })
+  } catch (error: any) {
+    const duration = Date.now() - startTime
+    logWithCorrelation(correlationId, "error", "Hotspot refresh error", { error: error.message, duration })
+    return NextResponse.json(
+      { status: "error", code: "server_error", message: "Internal server error" },
+      { status: 500 },
+    )
+  }
+}
+
+// Vercel Cron issues GET requests; POST is kept for manual or external schedulers
+export async function GET(request: NextRequest) {
+  return refresh(request)
+}
+
+export async function POST(request: NextRequest) {
+  return refresh(request)
+}
@@ -0,0 +1,91 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { addConfirmation, newConfirmationId } from "@/lib/confirmations"
+import { ApiError } from "@/lib/errors"
+import { processPhoto } from "@/lib/image"
+import { logWithCorrelation } from "@/lib/logger"
+import { savePhoto } from "@/lib/photos"
+import { RATE_LIMIT_RULES, checkRateLimits, clientFingerprint, clientIp } from "@/lib/rate-limit"
+import { OPEN_REPORT_STATUSES } from "@/lib/report-types"
+import { getReport, getReportByNumber } from "@/lib/reports"
+import { MAX_PHOTO_BYTES, checkContentLength } from "@/lib/submission"
+import { decodeRouteParam } from "@/lib/utils"
+
+// "Still there" confirmation of an existing report. Sent as multipart/form-data
+// with an optional `device_id` and at most one binary `photo`, or as JSON
+// without a photo.
+const fieldsSchema = z.object({ device_id: z.string().max(100).optional() })
+
+async function parseConfirmation(request: NextRequest): Promise<{ deviceId?: string; photo: Buffer | null }> {
+  // Before formData(), which reads the whole body into memory
+  checkContentLength(request)
+  if ((request.headers.get("content-type") || "").startsWith("multipart/form-data")) {
+    const form = await request.formData()
+    const deviceId = form.get("device_id")
+    const fields = fieldsSchema.parse({ device_id: typeof deviceId === "string" && deviceId ? deviceId : undefined })
+    const files = form.getAll("photo").filter((file): file is File => file instanceof Blob)
+    if (files.length > 1) throw new ApiError("too_many_photos", "Please attach at most one photo.")
+    const photo = files[0] ? Buffer.from(await files[0].arrayBuffer()) : null
+    if (photo && photo.length > MAX_PHOTO_BYTES) {
+      throw new ApiError("photo_too_large", "The photo is too large. Please choose a smaller image.", 413)
+    }
+    return { deviceId: fields.device_id, photo: photo && photo.length > 0 ? photo : null }
+  }
+  const fields = fieldsSchema.parse((await request.json().catch(() => null)) ?? {})
+  return { deviceId: fields.device_id, photo: null }
+}
+
+function errorResponse(code: string, message: string, status: number, headers?: Record<string, string>) {
+  return NextResponse.json({ status: "error", code, message }, { status, headers })
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ number: string }> }) {
+  const correlationId = crypto.randomUUID()
+  try {
+    const reportNumber = decodeRouteParam((await params).number)
+    const found = reportNumber ? await getReportByNumber(reportNumber) : null
+    // Confirming a duplicate backs the report it was linked to
+    const report = found?.duplicateOf ? await getReport(found.duplicateOf) : found
+    if (!report) return errorResponse("not_found", "Report not found", 404)
+    if (!(OPEN_REPORT_STATUSES as readonly string[]).includes(report.status)) {
+      return errorResponse(
+        "report_closed",
+        "This report is already closed. If the issue is back, please file a new report.",
+        409,
+      )
+    }
+
+    const { deviceId, photo } = await parseConfirmation(request)
+
+    const ip = clientIp(request.headers)
+    const device = clientFingerprint(deviceId, request.headers)
+    const rateLimit = await checkRateLimits([
+      { rule: RATE_LIMIT_RULES.confirmReport, value: `${report.id}|${device}` },
+      { rule: RATE_LIMIT_RULES.confirmDevice, value: device },
+      ...(ip ? [{ rule: RATE_LIMIT_RULES.confirmIp, value: ip }] : []),
+    ])
+    if (!rateLimit.allowed) {
+      logWithCorrelation(correlationId, "warn", "Confirmation rate limited", { rule: rateLimit.rule })
+      const headers = { "Retry-After": String(rateLimit.retryAfterSeconds) }
+      return rateLimit.rule === RATE_LIMIT_RULES.confirmReport.name
+        ? errorResponse("already_confirmed", "You already confirmed this report today. Thank you!", 429, headers)
+        : errorResponse("rate_limited", "Too many confirmations. Please try again later.", 429, headers)
+    }
+
+    const id = newConfirmationId()
+    let photoRef: string | null = null
+    if (photo) {
+      const image = await processPhoto(photo)
+      photoRef = await savePhoto(`${report.id}-confirmation-${id}`, image.bytes, image.extension)
+    }
+    const { confirmationCount } = await addConfirmation({ id, reportId: report.id, photoRef })
+    logWithCorrelation(correlationId, "info", "Report confirmed", { reportId: report.id, confirmationCount, photoRef })
+
+    return NextResponse.json({ status: "success", reportNumber: report.reportNumber, confirmationCount })
+  } catch (err: any) {
+    if (err instanceof ApiError) return errorResponse(err.code, err.message, err.status)
+    if (err instanceof z.ZodError) return errorResponse("bad_request", "Invalid request data", 400)
+    logWithCorrelation(correlationId, "error", "Confirmation failed", { error: err.message })
+    return errorResponse("server_error", "Internal server error", 500)
+  }
+}
@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getDepartment } from "@/lib/departments"
+import { findNearbyOpenReport } from "@/lib/duplicates"
+import { RATE_LIMIT_RULES, checkRateLimits, clientIp } from "@/lib/rate-limit"
+
+// "Already reported" check for the report form, so a citizen can see an open
+// report nearby before uploading a photo. Following the location policy in
+// lib/report-status.ts, the answer is only whether there is one within the
+// duplicate radius, and its report number: no distance, because a few answers
+// from different spots would pin the report down.
+const querySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lon: z.coerce.number().min(-180).max(180),
+  department: z.string().optional(),
+})
+
+export async function GET(request: NextRequest) {
+  const query = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!query.success) {
+    return NextResponse.json(
+      { status: "error", code: "bad_request", message: "Provide coordinates (lat, lon)" },
+      { status: 400 },
+    )
+  }
+  const { lat, lon, department } = query.data
+  if (department && !getDepartment(department)) {
+    return NextResponse.json(
+      { status: "error", code: "unknown_department", message: "Unknown department" },
+      { status: 400 },
+    )
+  }
+
+  const ip = clientIp(request.headers)
+  const rateLimit = await checkRateLimits(ip ? [{ rule: RATE_LIMIT_RULES.nearbyIp, value: ip }] : [])
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      { status: "error", code: "rate_limited", message: "Too many requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(rateLimit.retryAfterSeconds) } },
+    )
+  }
+
+  const nearby = await findNearbyOpenReport({ lat, lon, departmentId: department || undefined })
+  const reportNumber = nearby?.report.reportNumber
+  return NextResponse.json({ status: "success", report: reportNumber ? { reportNumber } : null })
+}
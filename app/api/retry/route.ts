@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isCronAuthorized } from "@/lib/cron"
+import { sendReportEmail } from "@/lib/email"
+import { logWithCorrelation } from "@/lib/logger"
+import { claimDueDeliveries, markDeliveryDead, markDeliveryFailed, markDeliverySent } from "@/lib/outbox"
+import { getReport, settleReportDelivery } from "@/lib/reports"
+
+const BATCH_SIZE = 25
+// vercel.json gives this function 30s; stop claiming new work well before that
+const TIME_BUDGET_MS = 20_000
+
+async function drainOutbox(request: NextRequest) {
+  const correlationId = crypto.randomUUID()
+  const startTime = Date.now()
+
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ status: "error", code: "unauthorized", message: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    logWithCorrelation(correlationId, "info", "Outbox drain started")
+
+    const sent: { reportId: string; reference?: string }[] = []
+    const failed: { reportId: string; attempts: number; nextAttemptAt: string; error: string }[] = []
+    const exhausted: { reportId: string; attempts: number; error: string }[] = []
+
+    while (Date.now() - startTime < TIME_BUDGET_MS) {
+      const batch = await claimDueDeliveries(BATCH_SIZE)
+      if (batch.length === 0) break
+
+      for (const entry of batch) {
+        const report = await getReport(entry.reportId)
+        if (!report) {
+          await markDeliveryDead(entry.reportId, "Report not found")
+          exhausted.push({ reportId: entry.reportId, attempts: entry.attempts, error: "Report not found" })
+          continue
+        }
+
+        const result = await sendReportEmail(report, correlationId)
+        if (result.success) {
+          await markDeliverySent(report.id)
+          await settleReportDelivery(report.id, "delivered", result.reference)
+          sent.push({ reportId: report.id, reference: result.reference })
+          continue
+        }
+
+        const error = result.error || "Failed to send report email."
+        const updated = await markDeliveryFailed(entry, error)
+        if (updated.status === "dead") {
+          await settleReportDelivery(report.id, "failed")
+          exhausted.push({ reportId: report.id, attempts: updated.attempts, error })
+        } else {
+          failed.push({ reportId: report.id, attempts: updated.attempts, nextAttemptAt: updated.nextAttemptAt, error })
+        }
+      }
+
+      if (batch.length < BATCH_SIZE) break
+    }
+
+    const duration = Date.now() - startTime
+    logWithCorrelation(correlationId, "info", "Outbox drain completed", {
+      duration,
+      sent: sent.length,
+      failed: failed.length,
+      exhausted: exhausted.length,
+    })
+
+    return NextResponse.json({
+      status: "success",
+      processed: sent.length + failed.length + exhausted.length,
+      sent,
+      failed,
+      exhausted,
+    })
+  } catch (error: any) {
+    const duration = Date.now() - startTime
+    logWithCorrelation(correlationId, "error", "Outbox drain error", { error: error.message, duration })
+    return NextResponse.json(
+      { status: "error", code: "server_error", message: "Internal server error" },
+      { status: 500 },
+    )
+  }
+}
+
+// Vercel Cron issues GET requests; POST is kept for manual or external schedulers
+export async function GET(request: NextRequest) {
+  return drainOutbox(request)
+}
+
+export async function POST(request: NextRequest) {
+  return drainOutbox(request)
+}
@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { recordScanStep } from "@/lib/scans"
+import { FUNNEL_STEPS } from "@/lib/submission-state"
+
+const stepSchema = z.object({ step: z.enum(FUNNEL_STEPS) })
+
+// Beacon from the report form on the QR landing page as it moves through the funnel
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const body = stepSchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    return NextResponse.json({ status: "error", code: "bad_request", message: "Invalid step" }, { status: 400 })
+  }
+
+  const { id } = await params
+  if (!(await recordScanStep(id, body.data.step))) {
+    return NextResponse.json({ status: "error", code: "not_found", message: "Unknown scan" }, { status: 404 })
+  }
+  return new NextResponse(null, { status: 204 })
+}
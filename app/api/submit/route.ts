@@ -1,114 +1,25 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { z } from "zod"
+import { resolveAssetCode } from "@/lib/assets"
+import { getDepartment } from "@/lib/departments"
+import { findNearbyOpenReport } from "@/lib/duplicates"
+import { sendReportEmail } from "@/lib/email"
+import { ApiError } from "@/lib/errors"
+import { enrichLocation } from "@/lib/geo/enrichment"
+import { checkGeofence, formatDistance } from "@/lib/geo/geofence"
+import { reverseGeocode } from "@/lib/geo/reverse-geocode"
+import { processPhoto } from "@/lib/image"
+import { logWithCorrelation } from "@/lib/logger"
+import { enqueueDelivery } from "@/lib/outbox"
+import { savePhoto } from "@/lib/photos"
+import { RATE_LIMIT_RULES, checkRateLimits, clientFingerprint, clientIp, locationCell } from "@/lib/rate-limit"
+import { createReport, newReportId, updateReportStatus } from "@/lib/reports"
+import { parseSubmission } from "@/lib/submission"
+import { isTurnstileEnabled, verifyTurnstileToken } from "@/lib/turnstile"
 
-// Validation schema
-const submitSchema = z.object({
-  lat: z.number().min(-90).max(90),
-  lon: z.number().min(-180).max(180),
-  accuracy: z.number().optional(),
-  timestamp: z.number().optional(),
-  client_nonce: z.string().uuid(),
-  message: z.string().min(1),
-  photoBase64: z.string(),
-  recipientEmail: z.string().email(),
-})
-
-// San Francisco bounding box (more precise)
-const SF_BOUNDS = {
-  north: 37.8324,
-  south: 37.7049,
-  east: -122.3482,
-  west: -122.5277,
-}
-
-// Production logging with correlation IDs
-function logWithCorrelation(correlationId: string, level: "info" | "warn" | "error", message: string, data?: any) {
-  const logEntry = {
-    timestamp: new Date().toISOString(),
-    correlationId,
-    level,
-    message,
-    ...(data && { data }),
-  }
-  console.log(JSON.stringify(logEntry))
-}
-
-function isInSanFrancisco(lat: number, lon: number): boolean {
-  return lat >= SF_BOUNDS.south && lat <= SF_BOUNDS.north && lon >= SF_BOUNDS.west && lon <= SF_BOUNDS.east
-}
-
-async function sendEmailReport(
-  data: z.infer<typeof submitSchema>,
-  correlationId: string,
-): Promise<{ success: boolean; reference?: string; error?: string }> {
-  try {
-    // Production email using Resend
-    if (!process.env.RESEND_API_KEY) {
-      throw new Error("RESEND_API_KEY not configured")
-    }
-
-    const attachments = []
-    if (data.photoBase64) {
-      // Remove the data URL prefix to get the raw base64 data
-      const base64Data = data.photoBase64.split(",")[1]
-      attachments.push({
-        filename: "photo.jpg",
-        content: base64Data,
-      })
-    }
-
-    const toEmail = process.env.NODE_ENV !== "production"
-      ? process.env.DEV_EMAIL || "joydip@bajarangs.com"
-      : data.recipientEmail;
-    
-    const emailPayload = {
-      from: process.env.SENDER_EMAIL || "reports@qr-garbage-reporter.com",
-      to: toEmail,
-      subject: `Litter report — ${data.lat.toFixed(6)},${data.lon.toFixed(6)} — QR Reporter`,
-      text: `
-Source: QR-Driven Garbage Reporting Webapp
-When: ${new Date(data.timestamp || Date.now()).toISOString()}
-Where: ${data.lat.toFixed(6)},${data.lon.toFixed(6)} ${data.accuracy ? `(±${Math.round(data.accuracy)}m)` : ""}
-Report ID: ${data.client_nonce}
-Correlation ID: ${correlationId}
-
----
-User Message:
-${data.message || "No message provided."}
----
-      `.trim(),
-      attachments: attachments,
-    }
-
-    const response = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(emailPayload),
-      signal: AbortSignal.timeout(15000), // Increased timeout for attachments
-    })
-
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`Email API error: ${response.status} ${error}`)
-    }
-
-    const result = await response.json()
-
-    logWithCorrelation(correlationId, "info", "Email sent successfully", {
-      messageId: result.id,
-      to: emailPayload.to,
-      nonce: data.client_nonce,
-    })
-
-    return { success: true, reference: result.id }
-  } catch (error: any) {
-    logWithCorrelation(correlationId, "error", "Failed to send email", { error: error.message })
-    return { success: false, error: error instanceof Error ? error.message : "Unknown error" }
-  }
-}
+// GPS fixes near the city line get the benefit of the doubt up to this radius;
+// manually placed pins and photo EXIF locations are taken at face value
+const MAX_GEOFENCE_TOLERANCE_M = 200
 
 // Idempotency check (in-memory store)
 const recentSubmissions = new Map<string, { timestamp: number; response: any }>()
@@ -125,17 +36,14 @@ export async function POST(request: NextRequest) {
   const startTime = Date.now()
 
   try {
-    const ip =
-      request.headers.get("x-forwarded-for")?.split(",")[0] ||
-      request.headers.get("x-real-ip") ||
-      "unknown"
+    const ip = clientIp(request.headers)
 
     logWithCorrelation(correlationId, "info", "Report submission started", { ip })
 
-    const body = await request.json()
-    const validatedData = submitSchema.parse(body)
+    const { fields: validatedData, photos } = await parseSubmission(request)
 
-    // Check idempotency
+    // A retry of a report that was just accepted gets the same answer, and does
+    // not count against the limits a second time
     const idempotencyKey = getIdempotencyKey(validatedData)
     const existing = recentSubmissions.get(idempotencyKey)
     if (existing && Date.now() - existing.timestamp < 300000) {
@@ -143,30 +51,166 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(existing.response)
     }
 
-    // NOTE: Location bounds check disabled for hackathon demo - judges can test from anywhere
-    // In production, uncomment the bounds check above to restrict to SF only
-    // if (!isInSanFrancisco(validatedData.lat, validatedData.lon)) {
-    //   logWithCorrelation(correlationId, "warn", "Location out of bounds", validatedData)
-    //   return NextResponse.json(
-    //     {
-    //       status: "error",
-    //       code: "out_of_bounds",
-    //       message: "Location must be within San Francisco city limits",
-    //     },
-    //     { status: 400 },
-    //   )
-    // }
-
-    // Attempt to send email report
-    const emailResult = await sendEmailReport(validatedData, correlationId)
-
-    if (!emailResult.success) {
-      throw new Error(emailResult.error || "Failed to send report email.")
+    // Recipients come from the server-owned directory, never from the client
+    const department = getDepartment(validatedData.departmentId)
+    if (!department) {
+      logWithCorrelation(correlationId, "warn", "Unknown department", { departmentId: validatedData.departmentId })
+      return NextResponse.json(
+        {
+          status: "error",
+          code: "unknown_department",
+          message: "Please select a valid department or agency",
+        },
+        { status: 400 },
+      )
     }
 
-    const response = {
-      status: "success" as const,
-      reference: emailResult.reference,
+    // Reports started from a QR code are linked to its asset. When the reporter
+    // used the asset's location, the registered position is used rather than the
+    // client's copy of it.
+    const asset = validatedData.asset_code ? await resolveAssetCode(validatedData.asset_code) : null
+    if ((validatedData.asset_code || validatedData.location_source === "asset") && !asset) {
+      logWithCorrelation(correlationId, "warn", "Unknown asset", { assetCode: validatedData.asset_code })
+      return NextResponse.json(
+        {
+          status: "error",
+          code: "unknown_asset",
+          message: "This QR code is not registered. Please report from the main page instead.",
+        },
+        { status: 400 },
+      )
+    }
+    const { lat, lon } = asset && validatedData.location_source === "asset" ? asset : validatedData
+
+    const tolerance =
+      validatedData.location_source === "gps" ? Math.min(validatedData.accuracy ?? 0, MAX_GEOFENCE_TOLERANCE_M) : 0
+    const geofence = checkGeofence(lat, lon, tolerance)
+    if (!geofence.inside) {
+      logWithCorrelation(correlationId, "warn", "Location out of bounds", {
+        distanceMeters: geofence.distanceMeters,
+        enforced: geofence.enforced,
+        locationSource: validatedData.location_source,
+      })
+      if (geofence.enforced) {
+        return NextResponse.json(
+          {
+            status: "error",
+            code: "out_of_bounds",
+            message: `Location must be within San Francisco city limits. You appear to be about ${formatDistance(geofence.distanceMeters)} outside.`,
+            distanceMeters: geofence.distanceMeters,
+          },
+          { status: 400 },
+        )
+      }
+    }
+
+    // Only requests that got this far count against the limits. The captcha and
+    // photo processing below are the costly steps, so their failures count too.
+    const rateLimit = await checkRateLimits([
+      ...(ip ? [{ rule: RATE_LIMIT_RULES.ip, value: ip }] : []),
+      { rule: RATE_LIMIT_RULES.device, value: clientFingerprint(validatedData.device_id, request.headers) },
+      { rule: RATE_LIMIT_RULES.cell, value: locationCell(validatedData.lat, validatedData.lon) },
+    ])
+    if (!rateLimit.allowed) {
+      logWithCorrelation(correlationId, "warn", "Rate limit exceeded", { rule: rateLimit.rule })
+      return NextResponse.json(
+        {
+          status: "error",
+          code: "rate_limited",
+          message: "Too many reports. Please wait a few minutes and try again.",
+        },
+        { status: 429, headers: { "Retry-After": String(rateLimit.retryAfterSeconds) } },
+      )
+    }
+
+    if (isTurnstileEnabled()) {
+      const captcha = await verifyTurnstileToken(validatedData.turnstileToken, ip ?? undefined)
+      if (!captcha.success) {
+        logWithCorrelation(correlationId, "warn", "Captcha verification failed", { errorCodes: captcha.errorCodes })
+        return NextResponse.json(
+          {
+            status: "error",
+            code: "captcha_failed",
+            message: "Verification failed. Please complete the challenge and try again.",
+          },
+          { status: 403 },
+        )
+      }
+    }
+
+    // A report of something already reported nearby is linked to the open report
+    // instead of sending the department another email about it
+    const nearby = await findNearbyOpenReport({ lat, lon, departmentId: department.id })
+
+    // Persist the report before any delivery is attempted so it survives email failures
+    const reportId = newReportId()
+    const geocoded = reverseGeocode(lat, lon)
+    // Process every photo before saving any, so one bad upload leaves no files behind
+    const processed = []
+    for (const photo of photos) {
+      processed.push(await processPhoto(photo.bytes))
+    }
+    const photoRefs: string[] = []
+    for (const [index, image] of processed.entries()) {
+      photoRefs.push(await savePhoto(`${reportId}-${index + 1}`, image.bytes, image.extension))
+    }
+    const report = await createReport({
+      id: reportId,
+      correlationId,
+      clientNonce: validatedData.client_nonce,
+      lat,
+      lon,
+      // Accuracy only means something for device fixes
+      accuracy: validatedData.location_source === "gps" ? validatedData.accuracy ?? null : null,
+      locationSource: validatedData.location_source,
+      observedAt: new Date(validatedData.timestamp || Date.now()).toISOString(),
+      message: validatedData.message,
+      departmentId: department.id,
+      recipientEmail: department.email,
+      assetId: asset?.id ?? null,
+      duplicateOf: nearby?.report.id ?? null,
+      photoRefs,
+      ...enrichLocation(lat, lon),
+      nearestAddress: geocoded?.address ?? geocoded?.street ?? null,
+      crossStreet: geocoded?.crossStreet ?? null,
+    })
+
+    logWithCorrelation(correlationId, "info", "Report stored", { reportId: report.id, photoRefs })
+
+    let response
+    if (nearby) {
+      logWithCorrelation(correlationId, "info", "Report linked as duplicate", {
+        reportId: report.id,
+        duplicateOf: nearby.report.id,
+        distanceMeters: Math.round(nearby.distanceMeters),
+      })
+      response = {
+        status: "success" as const,
+        delivery: "duplicate" as const,
+        reportId: report.id,
+        reportNumber: report.reportNumber,
+        duplicateOf: nearby.report.reportNumber,
+      }
+    } else {
+      // Attempt to send email report; failures are queued for /api/retry instead of
+      // being surfaced to the citizen, since the report itself is already stored
+      const emailResult = await sendReportEmail(report, correlationId)
+
+      if (emailResult.success) {
+        await updateReportStatus(report.id, "delivered", emailResult.reference)
+      } else {
+        await enqueueDelivery(report.id, emailResult.error || "Failed to send report email.")
+        await updateReportStatus(report.id, "delivery_pending")
+        logWithCorrelation(correlationId, "warn", "Delivery queued for retry", { reportId: report.id })
+      }
+
+      response = {
+        status: "success" as const,
+        delivery: emailResult.success ? ("sent" as const) : ("pending" as const),
+        reportId: report.id,
+        reportNumber: report.reportNumber,
+        reference: emailResult.reference,
+      }
     }
 
     recentSubmissions.set(idempotencyKey, { timestamp: Date.now(), response })
@@ -187,11 +231,18 @@ export async function POST(request: NextRequest) {
       status: response.status,
     })
 
-    return NextResponse.json(response)
+    return NextResponse.json(response, { status: response.delivery === "pending" ? 202 : 200 })
   } catch (error: any) {
     const duration = Date.now() - startTime
     logWithCorrelation(correlationId, "error", "API error", { error: error.message, duration })
 
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { status: "error", code: error.code, message: error.message },
+        { status: error.status },
+      )
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         {
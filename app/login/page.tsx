@@ -0,0 +1,30 @@
+import type { Metadata } from "next"
+import { redirect } from "next/navigation"
+import { StaffLoginForm } from "@/components/staff-login-form"
+import { currentStaff } from "@/lib/auth/guard"
+import { isOidcEnabled, oidcProviderName } from "@/lib/auth/oidc"
+
+export const dynamic = "force-dynamic"
+
+export const metadata: Metadata = {
+  title: "Staff Sign In · SF Garbage Reporter",
+  robots: { index: false },
+}
+
+const ERRORS: Record<string, string> = {
+  link_expired: "That sign-in link has expired or was already used. Please request a new one.",
+  sso_failed: "Single sign-on did not complete. Please try again.",
+  not_staff: "Your account is not set up for the admin area. Ask an administrator to add you.",
+}
+
+export default async function LoginPage({ searchParams }: { searchParams: Promise<{ error?: string }> }) {
+  if (await currentStaff()) redirect("/admin")
+
+  const { error } = await searchParams
+  return (
+    <StaffLoginForm
+      error={error ? ERRORS[error] ?? null : null}
+      sso={isOidcEnabled() ? { name: oidcProviderName() } : null}
+    />
+  )
+}
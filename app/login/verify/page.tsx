@@ -0,0 +1,34 @@
+import type { Metadata } from "next"
+import { LogIn } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+
+export const metadata: Metadata = {
+  title: "Staff Sign In · SF Garbage Reporter",
+  robots: { index: false },
+}
+
+// Target of the emailed sign-in link. Signing in takes a button press rather than
+// happening on page load, since mail scanners open links before the recipient does.
+export default async function VerifyLoginPage({ searchParams }: { searchParams: Promise<{ token?: string }> }) {
+  const { token } = await searchParams
+  return (
+    <main className="min-h-screen w-full flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Sign In</CardTitle>
+          <CardDescription>Continue to the SF Garbage Reporter admin area.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form action="/api/auth/magic-link/verify" method="post">
+            <input type="hidden" name="token" value={token ?? ""} />
+            <Button type="submit" className="w-full">
+              <LogIn className="w-4 h-4 mr-2" />
+              Sign In
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </main>
+  )
+}
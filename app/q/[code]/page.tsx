@@ -0,0 +1,36 @@
+import type { Metadata } from "next"
+import { headers } from "next/headers"
+import { ReportPage } from "@/components/report-page"
+import { resolveAssetCode, toAssetSummary } from "@/lib/assets"
+import { logWithCorrelation } from "@/lib/logger"
+import { recordScan } from "@/lib/scans"
+import { decodeRouteParam } from "@/lib/utils"
+
+// Landing page for printed QR codes. Unknown and retired codes still get a working form,
+// just without the asset's location and default department.
+
+export const dynamic = "force-dynamic"
+
+export const metadata: Metadata = {
+  robots: { index: false },
+}
+
+export default async function QrLandingPage({ params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params
+  // A malformed code is just another unknown one
+  const decoded = decodeRouteParam(code) ?? code
+  const asset = await resolveAssetCode(decoded)
+
+  // Analytics must not stop anyone from reporting, so a failed write just
+  // leaves this visit untracked
+  const scanId = await recordScan({
+    code: decoded,
+    assetId: asset?.id ?? null,
+    userAgent: (await headers()).get("user-agent"),
+  }).catch((error) => {
+    logWithCorrelation(crypto.randomUUID(), "error", "Failed to record QR scan", { error: error.message })
+    return null
+  })
+
+  return <ReportPage asset={asset ? toAssetSummary(asset) : null} scanId={scanId} />
+}
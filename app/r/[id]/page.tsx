@@ -0,0 +1,116 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { CheckCircle, Circle, MapPin } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ConfirmReport } from "@/components/confirm-report"
+import { ThemeToggle } from "@/components/theme-toggle"
+import { PUBLIC_STATUS_STEPS, toPublicReport } from "@/lib/report-status"
+import { getReport, getReportByNumber } from "@/lib/reports"
+import { decodeRouteParam } from "@/lib/utils"
+
+// Always read the current status rather than a cached render
+export const dynamic = "force-dynamic"
+
+export const metadata: Metadata = {
+  title: "Report Status — SF Garbage Reporter",
+  robots: { index: false },
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    timeZone: "America/Los_Angeles",
+    dateStyle: "medium",
+    timeStyle: "short",
+  })
+}
+
+export default async function ReportStatusPage({ params }: { params: Promise<{ id: string }> }) {
+  const reportNumber = decodeRouteParam((await params).id)
+  if (!reportNumber) notFound()
+  const report = await getReportByNumber(reportNumber)
+  const original = report?.duplicateOf ? await getReport(report.duplicateOf) : null
+  const view = report ? toPublicReport(report, original) : null
+  if (!view) notFound()
+
+  const reached = PUBLIC_STATUS_STEPS.findIndex((step) => step.status === view.status)
+
+  return (
+    <main className="relative flex min-h-screen w-full flex-col items-center justify-center p-2 sm:p-4 md:p-8">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+      <Card className="w-full max-w-md mx-auto shadow-lg sm:rounded-xl">
+        <CardHeader className="text-center">
+          <CardDescription>Report number</CardDescription>
+          <CardTitle className="text-2xl font-mono tracking-wider">{view.reportNumber}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {view.duplicateOf && (
+            <p className="text-sm text-muted-foreground">
+              This issue had already been reported, so your report was added to{" "}
+              <Link href={`/r/${view.duplicateOf}`} className="font-mono underline">
+                {view.duplicateOf}
+              </Link>
+              . The progress below is that report&apos;s.
+            </p>
+          )}
+          <ol className="space-y-3">
+            {PUBLIC_STATUS_STEPS.map((step, index) => (
+              <li key={step.status} className="flex items-start gap-3">
+                {index <= reached ? (
+                  <CheckCircle className="w-5 h-5 mt-0.5 shrink-0 text-green-600 dark:text-green-400" />
+                ) : (
+                  <Circle className="w-5 h-5 mt-0.5 shrink-0 text-muted-foreground" />
+                )}
+                <div>
+                  <p className={index <= reached ? "font-medium" : "text-muted-foreground"}>{step.label}</p>
+                  {index === reached && <p className="text-sm text-muted-foreground">{step.description}</p>}
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+            <dt className="text-muted-foreground">Reported</dt>
+            <dd>{formatTime(view.createdAt)}</dd>
+            <dt className="text-muted-foreground">Last update</dt>
+            <dd>{formatTime(view.updatedAt)}</dd>
+            {view.confirmationCount > 0 && view.lastConfirmedAt && (
+              <>
+                <dt className="text-muted-foreground">Still there</dt>
+                <dd>
+                  Confirmed {view.confirmationCount === 1 ? "once" : `${view.confirmationCount} times`}, last{" "}
+                  {formatTime(view.lastConfirmedAt)}
+                </dd>
+              </>
+            )}
+            <dt className="text-muted-foreground">Department</dt>
+            <dd>{view.department ?? "Unknown"}</dd>
+            <dt className="text-muted-foreground">Location</dt>
+            <dd className="flex items-start gap-1">
+              <MapPin className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>
+                {[view.approximateLocation, view.neighborhood].filter(Boolean).join(", ") || "San Francisco"}
+              </span>
+            </dd>
+          </dl>
+
+          {view.status !== "resolved" && (
+            <div className="space-y-2 border-t pt-4">
+              <p className="text-sm text-muted-foreground">
+                Passing by and it is still there? Let the department know, with a fresh photo if you like.
+              </p>
+              <ConfirmReport reportNumber={view.duplicateOf ?? view.reportNumber} />
+            </div>
+          )}
+
+          <Button asChild variant="outline" className="w-full bg-transparent">
+            <Link href="/">Report Another Issue</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </main>
+  )
+}
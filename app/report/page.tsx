@@ -1,6 +1,11 @@
 import { redirect } from "next/navigation"
 
-export default function ReportPage() {
-  // Redirect /report to the main page for QR code compatibility
+// Stable entry point for printed codes. `/report?code=BIN-00042` forwards to the
+// asset's QR landing; plain `/report` goes to the main page.
+export default async function ReportPage({ searchParams }: { searchParams: Promise<{ code?: string | string[] }> }) {
+  const { code } = await searchParams
+  if (typeof code === "string" && code.trim()) {
+    redirect(`/q/${encodeURIComponent(code.trim())}`)
+  }
   redirect("/")
 }
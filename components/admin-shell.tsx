@@ -0,0 +1,102 @@
+"use client"
+
+import type React from "react"
+
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { BarChart3, ClipboardList, LogOut, Map as MapIcon, QrCode, Trash2, Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar"
+import { ThemeToggle } from "@/components/theme-toggle"
+import { StaffContext } from "@/hooks/use-staff"
+import { STAFF_ROLE_LABELS, hasPermission, type Permission, type StaffSummary } from "@/lib/auth/roles"
+import { getDepartment } from "@/lib/departments"
+
+const NAV_ITEMS: { href: string; label: string; icon: typeof ClipboardList; permission: Permission }[] = [
+  { href: "/admin", label: "Reports", icon: ClipboardList, permission: "reports:read" },
+  { href: "/admin/map", label: "Map", icon: MapIcon, permission: "reports:read" },
+  { href: "/admin/assets", label: "QR Assets", icon: QrCode, permission: "assets:read" },
+  { href: "/admin/scans", label: "Scan Analytics", icon: BarChart3, permission: "assets:read" },
+  { href: "/admin/staff", label: "Staff", icon: Users, permission: "staff:manage" },
+]
+
+// Navigation for the /admin area, showing only what the signed-in role may use
+export function AdminShell({ staff, children }: { staff: StaffSummary; children: React.ReactNode }) {
+  const pathname = usePathname()
+
+  // Report detail pages live under /admin/reports but belong to the Reports entry
+  const isActive = (href: string) =>
+    href === "/admin" ? pathname === href || pathname.startsWith("/admin/reports") : pathname.startsWith(href)
+
+  const department = staff.departmentId ? getDepartment(staff.departmentId)?.name : null
+
+  return (
+    <StaffContext.Provider value={staff}>
+      <SidebarProvider>
+        <Sidebar>
+          <SidebarHeader>
+            <div className="flex items-center gap-2 px-2 py-1 font-semibold">
+              <Trash2 className="w-5 h-5" />
+              SF Reporter Admin
+            </div>
+          </SidebarHeader>
+          <SidebarContent>
+            <SidebarGroup>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {NAV_ITEMS.filter((item) => hasPermission(staff.role, item.permission)).map((item) => (
+                    <SidebarMenuItem key={item.href}>
+                      <SidebarMenuButton asChild isActive={isActive(item.href)}>
+                        <Link href={item.href}>
+                          <item.icon />
+                          <span>{item.label}</span>
+                        </Link>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          </SidebarContent>
+          <SidebarFooter>
+            <div className="space-y-2 p-2 text-sm">
+              <div>
+                <p className="font-medium truncate">{staff.name ?? staff.email}</p>
+                <p className="text-xs text-muted-foreground">
+                  {STAFF_ROLE_LABELS[staff.role]}
+                  {department && ` · ${department}`}
+                </p>
+              </div>
+              <form action="/api/auth/logout" method="post">
+                <Button type="submit" variant="outline" size="sm" className="w-full">
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Sign Out
+                </Button>
+              </form>
+            </div>
+          </SidebarFooter>
+        </Sidebar>
+        <SidebarInset>
+          <header className="flex h-12 items-center justify-between border-b px-2">
+            <SidebarTrigger />
+            <ThemeToggle />
+          </header>
+          <div className="w-full p-2 sm:p-4 md:p-8 space-y-4 max-w-6xl mx-auto">{children}</div>
+        </SidebarInset>
+      </SidebarProvider>
+    </StaffContext.Provider>
+  )
+}
@@ -0,0 +1,312 @@
+"use client"
+
+import type React from "react"
+
+import { useCallback, useEffect, useState } from "react"
+import { Download, FileUp, Loader2, QrCode, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useStaff } from "@/hooks/use-staff"
+import type { ImportRowError } from "@/lib/asset-import"
+import { ASSET_STATUSES, type AssetStatus } from "@/lib/asset-types"
+import type { Asset } from "@/lib/assets"
+import { getDepartment } from "@/lib/departments"
+
+const PAGE_SIZE = 50
+
+interface ImportOutcome {
+  message: string
+  errors: ImportRowError[]
+}
+
+export function AssetRegistry() {
+  const staff = useStaff()
+  const canEdit = staff.can("assets:write")
+  const [query, setQuery] = useState("")
+  const [status, setStatus] = useState<AssetStatus | "all">("all")
+  const [offset, setOffset] = useState(0)
+  const [assets, setAssets] = useState<Asset[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [importing, setImporting] = useState(false)
+  const [importOutcome, setImportOutcome] = useState<ImportOutcome | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError("")
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) })
+      if (query) params.set("q", query)
+      if (status !== "all") params.set("status", status)
+      const res = await fetch(`/api/admin/assets?${params}`)
+      const result = await res.json()
+      if (!res.ok) {
+        setError(result.message || "Could not load assets")
+        return
+      }
+      setAssets(result.assets)
+      setTotal(result.total)
+    } catch {
+      setError("Network error")
+    } finally {
+      setLoading(false)
+    }
+  }, [offset, query, status])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const updateStatus = async (asset: Asset, next: AssetStatus) => {
+    const res = await fetch(`/api/admin/assets/${encodeURIComponent(asset.code)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status: next }),
+    })
+    const result = await res.json()
+    if (res.ok) {
+      setAssets((current) => current.map((item) => (item.id === asset.id ? result.asset : item)))
+    } else {
+      setError(result.message || "Could not update asset")
+    }
+  }
+
+  // Fetched rather than linked so that errors show on this page instead of a raw JSON tab
+  const download = async (path: string, filename: string) => {
+    const res = await fetch(path)
+    if (!res.ok) {
+      const result = await res.json().catch(() => null)
+      setError(result?.message || "Could not generate posters")
+      return
+    }
+    const url = URL.createObjectURL(await res.blob())
+    const link = document.createElement("a")
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    setImporting(true)
+    setImportOutcome(null)
+    try {
+      const payload = new FormData()
+      payload.append("file", file)
+      const res = await fetch("/api/admin/assets/import", { method: "POST", body: payload })
+      const result = await res.json()
+      setImportOutcome(
+        res.ok
+          ? { message: `Imported ${result.created} new and ${result.updated} updated assets.`, errors: [] }
+          : { message: result.message || "Import failed", errors: result.errors ?? [] },
+      )
+      if (res.ok) load()
+    } catch {
+      setImportOutcome({ message: "Network error", errors: [] })
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <>
+      <h1 className="text-2xl font-bold flex items-center gap-2">
+        <QrCode className="w-6 h-6" />
+        QR Asset Registry
+      </h1>
+
+      {canEdit && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Import CSV</CardTitle>
+            <CardDescription>
+              Columns: code, type, lat, lon, label, department_id, install_date (YYYY-MM-DD), status. Existing codes are
+              updated. Nothing is imported unless every row is valid.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="csv" className="sr-only">
+              CSV file
+            </Label>
+            <Button variant="outline" asChild disabled={importing}>
+              <label htmlFor="csv" className="cursor-pointer">
+                {importing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileUp className="w-4 h-4 mr-2" />}
+                Choose CSV File
+              </label>
+            </Button>
+            <input id="csv" type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+            {importOutcome && (
+              <div className="text-sm space-y-1">
+                <p>{importOutcome.message}</p>
+                {importOutcome.errors.length > 0 && (
+                  <ul className="max-h-48 overflow-auto text-destructive">
+                    {importOutcome.errors.map((rowError) => (
+                      <li key={`${rowError.line}-${rowError.message}`}>
+                        Line {rowError.line}: {rowError.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="space-y-3">
+          <div className="flex flex-wrap items-end gap-2">
+            <form
+              className="flex gap-2 flex-1 min-w-[200px]"
+              onSubmit={(e) => {
+                e.preventDefault()
+                setOffset(0)
+                load()
+              }}
+            >
+              <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search code or label" />
+              <Button type="submit" variant="outline" size="icon" aria-label="Search">
+                <Search className="w-4 h-4" />
+              </Button>
+            </form>
+            <Select
+              value={status}
+              onValueChange={(value) => {
+                setStatus(value as AssetStatus | "all")
+                setOffset(0)
+              }}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {ASSET_STATUSES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => download("/api/admin/posters?format=pdf", "posters.pdf")}>
+              <Download className="w-4 h-4 mr-2" />
+              Posters for All Active (PDF)
+            </Button>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Label</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Installed</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Poster</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assets.map((asset) => (
+                <TableRow key={asset.id}>
+                  <TableCell className="font-mono">
+                    <a href={`/q/${encodeURIComponent(asset.code)}`} className="underline">
+                      {asset.code}
+                    </a>
+                  </TableCell>
+                  <TableCell>{asset.type.replace("_", " ")}</TableCell>
+                  <TableCell className="max-w-[200px] truncate">{asset.label}</TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {asset.lat.toFixed(5)}, {asset.lon.toFixed(5)}
+                  </TableCell>
+                  <TableCell>{asset.departmentId ? getDepartment(asset.departmentId)?.name : "—"}</TableCell>
+                  <TableCell>{asset.installDate ?? "—"}</TableCell>
+                  <TableCell>
+                    {canEdit ? (
+                      <Select value={asset.status} onValueChange={(value) => updateStatus(asset, value as AssetStatus)}>
+                        <SelectTrigger className="h-8 w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ASSET_STATUSES.map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {value}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      asset.status
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <Button
+                      variant="link"
+                      size="sm"
+                      onClick={() =>
+                        download(`/api/admin/posters?format=svg&codes=${encodeURIComponent(asset.code)}`, `poster-${asset.code}.svg`)
+                      }
+                    >
+                      SVG
+                    </Button>
+                    <Button
+                      variant="link"
+                      size="sm"
+                      onClick={() =>
+                        download(`/api/admin/posters?format=pdf&codes=${encodeURIComponent(asset.code)}`, `poster-${asset.code}.pdf`)
+                      }
+                    >
+                      PDF
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!loading && assets.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    No assets found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+          <div className="flex items-center justify-between pt-4 text-sm text-muted-foreground">
+            <span>
+              {total === 0 ? "0" : `${offset + 1}–${Math.min(offset + PAGE_SIZE, total)}`} of {total}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={offset === 0}
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={offset + PAGE_SIZE >= total}
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  )
+}
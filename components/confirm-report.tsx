@@ -0,0 +1,125 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { CheckCircle, Loader2, Paperclip, ThumbsUp, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { getDeviceId } from "@/lib/device-id"
+import { MAX_SOURCE_BYTES, PhotoDecodeError, resizePhoto } from "@/lib/photo-resize"
+
+// "Still there" confirmation of an existing report, with an optional fresh photo.
+// Used on the status page and in the "already reported" notice on the report form.
+export function ConfirmReport({ reportNumber }: { reportNumber: string }) {
+  const [photo, setPhoto] = useState<{ blob: Blob; previewUrl: string } | null>(null)
+  const [preparing, setPreparing] = useState(false)
+  const [sending, setSending] = useState(false)
+  const [confirmationCount, setConfirmationCount] = useState<number | null>(null)
+  const [error, setError] = useState("")
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    return () => {
+      if (photo) URL.revokeObjectURL(photo.previewUrl)
+    }
+  }, [photo])
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Reset so picking the same file again still fires a change event
+    event.target.value = ""
+    if (!file) return
+    if (file.size > MAX_SOURCE_BYTES) {
+      setError(`"${file.name}" is too large. Please select an image under ${MAX_SOURCE_BYTES / 1024 / 1024}MB.`)
+      return
+    }
+    setError("")
+    setPreparing(true)
+    try {
+      const blob = await resizePhoto(file)
+      setPhoto({ blob, previewUrl: URL.createObjectURL(blob) })
+    } catch (err) {
+      setError(err instanceof PhotoDecodeError ? err.message : "Could not process image. Please try another one.")
+    } finally {
+      setPreparing(false)
+    }
+  }
+
+  const confirm = async () => {
+    setSending(true)
+    setError("")
+    try {
+      const payload = new FormData()
+      const deviceId = getDeviceId()
+      if (deviceId) payload.append("device_id", deviceId)
+      if (photo) payload.append("photo", photo.blob, "photo.jpg")
+      const res = await fetch(`/api/reports/${encodeURIComponent(reportNumber)}/confirm`, {
+        method: "POST",
+        body: payload,
+      })
+      const result = await res.json()
+      if (res.ok) {
+        setConfirmationCount(result.confirmationCount)
+        setPhoto(null)
+      } else {
+        setError(result.message || "Could not confirm the report. Please try again.")
+      }
+    } catch {
+      setError("Network error. Please check your connection and try again.")
+    } finally {
+      setSending(false)
+    }
+  }
+
+  if (confirmationCount !== null) {
+    return (
+      <p className="flex items-center gap-2 text-sm">
+        <CheckCircle className="w-4 h-4 shrink-0 text-green-600 dark:text-green-400" />
+        {confirmationCount > 1
+          ? `Thanks! ${confirmationCount} people have confirmed it is still there.`
+          : "Thanks! The department will see that it is still there."}
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {photo && (
+        <div className="flex items-center justify-between p-2 border rounded-md bg-muted/50">
+          <div className="flex items-center gap-2">
+            <img src={photo.previewUrl} alt="Fresh photo" className="w-10 h-10 rounded-sm object-cover" />
+            <span className="text-sm text-muted-foreground">Fresh photo</span>
+          </div>
+          <Button variant="ghost" size="icon" aria-label="Remove photo" onClick={() => setPhoto(null)}>
+            <XCircle className="w-5 h-5 text-destructive" />
+          </Button>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Button className="flex-1" onClick={confirm} disabled={sending || preparing}>
+          {sending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ThumbsUp className="w-4 h-4 mr-2" />}
+          It&apos;s Still There
+        </Button>
+        {!photo && (
+          <Button
+            variant="outline"
+            className="bg-transparent"
+            disabled={sending || preparing}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {preparing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Paperclip className="w-4 h-4 mr-2" />}
+            Add Photo
+          </Button>
+        )}
+      </div>
+      <input
+        type="file"
+        accept="image/*,.heic,.heif"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import type { Map as LeafletMap, Marker } from "leaflet"
+import "leaflet/dist/leaflet.css"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Loader2, MapPin, Search } from "lucide-react"
+import { addBasemap } from "@/lib/map-basemap"
+import { SF_CENTER } from "@/lib/map-config"
+
+interface LocationPickerProps {
+  initial?: { lat: number; lon: number } | null
+  onConfirm: (location: { lat: number; lon: number }) => void
+  onCancel: () => void
+}
+
+export function LocationPicker({ initial, onConfirm, onCancel }: LocationPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const mapRef = useRef<LeafletMap | null>(null)
+  const markerRef = useRef<Marker | null>(null)
+  const [pin, setPin] = useState<{ lat: number; lon: number } | null>(initial ?? null)
+  const [label, setLabel] = useState<string | null>(null)
+  const [query, setQuery] = useState("")
+  const [searching, setSearching] = useState(false)
+  const [searchError, setSearchError] = useState("")
+
+  // Leaflet touches `window`, so it is loaded only in the browser
+  useEffect(() => {
+    let cancelled = false
+
+    import("leaflet").then(({ default: L }) => {
+      if (cancelled || !containerRef.current) return
+
+      const start = initial ?? SF_CENTER
+      const map = L.map(containerRef.current).setView([start.lat, start.lon], initial ? 17 : 13)
+      addBasemap(L, map)
+
+      const marker = L.marker([start.lat, start.lon], {
+        draggable: true,
+        icon: L.divIcon({
+          className: "",
+          html: '<div class="w-5 h-5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-primary border-2 border-white shadow"></div>',
+        }),
+      })
+      if (initial) marker.addTo(map)
+      marker.on("dragend", () => {
+        const position = marker.getLatLng()
+        setPin({ lat: position.lat, lon: position.lng })
+      })
+      map.on("click", (event) => {
+        marker.setLatLng(event.latlng).addTo(map)
+        setPin({ lat: event.latlng.lat, lon: event.latlng.lng })
+      })
+
+      mapRef.current = map
+      markerRef.current = marker
+    })
+
+    return () => {
+      cancelled = true
+      mapRef.current?.remove()
+      mapRef.current = null
+    }
+  }, [initial])
+
+  // Describe the pin with the nearest street and cross street
+  useEffect(() => {
+    if (!pin) return
+    setLabel(null)
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      fetch(`/api/geocode?lat=${pin.lat}&lon=${pin.lon}`, { signal: controller.signal })
+        .then((res) => res.json())
+        .then((result) => setLabel(result.result?.label ?? null))
+        .catch(() => {})
+    }, 300)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [pin])
+
+  const search = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!query.trim()) return
+    setSearching(true)
+    setSearchError("")
+    try {
+      const res = await fetch(`/api/geocode?q=${encodeURIComponent(query)}`)
+      const result = await res.json()
+      if (!res.ok) {
+        setSearchError(result.message || "Address not found.")
+        return
+      }
+      const { lat, lon } = result.result
+      setPin({ lat, lon })
+      if (mapRef.current && markerRef.current) {
+        markerRef.current.setLatLng([lat, lon]).addTo(mapRef.current)
+        mapRef.current.setView([lat, lon], 17)
+      }
+    } catch {
+      setSearchError("Network error. Please check your connection and try again.")
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={search} className="flex gap-2">
+        <Input
+          placeholder="Intersection, e.g. Market St & 2nd St"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          aria-label="Intersection"
+        />
+        <Button type="submit" variant="outline" size="icon" disabled={searching} aria-label="Find intersection">
+          {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+        </Button>
+      </form>
+      {searchError && <p className="text-sm text-destructive">{searchError}</p>}
+      <div ref={containerRef} className="h-64 w-full rounded-md border z-0" />
+      <p className="text-sm text-muted-foreground text-center min-h-5">
+        {pin ? label ?? `${pin.lat.toFixed(5)}, ${pin.lon.toFixed(5)}` : "Tap the map to drop a pin where the issue is."}
+      </p>
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1 bg-transparent" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button className="flex-1" disabled={!pin} onClick={() => pin && onConfirm(pin)}>
+          <MapPin className="w-4 h-4 mr-2" />
+          Use This Location
+        </Button>
+      </div>
+    </div>
+  )
+}
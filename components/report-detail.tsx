@@ -0,0 +1,258 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ReportLocationMap } from "@/components/report-location-map"
+import { ReportStatusBadge } from "@/components/report-status-badge"
+import { useStaff } from "@/hooks/use-staff"
+import type { AssetSummary } from "@/lib/assets"
+import { getDepartment } from "@/lib/departments"
+import {
+  LOCATION_SOURCE_LABELS,
+  REPORT_STATUS_LABELS,
+  STAFF_REPORT_STATUSES,
+  type StaffReportStatus,
+} from "@/lib/report-types"
+import type { Report } from "@/lib/reports"
+
+type ReportLink = Pick<Report, "id" | "reportNumber" | "createdAt">
+
+interface ConfirmationSummary {
+  id: string
+  createdAt: string
+  hasPhoto: boolean
+}
+
+const pluralTimes = (count: number) => (count === 1 ? "Once" : `${count} times`)
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })
+
+// Admin view of one report: everything stored about it, its photos and its location
+export function ReportDetail({ id }: { id: string }) {
+  const staff = useStaff()
+  const [report, setReport] = useState<Report | null>(null)
+  const [asset, setAsset] = useState<AssetSummary | null>(null)
+  const [duplicateOf, setDuplicateOf] = useState<ReportLink | null>(null)
+  const [duplicates, setDuplicates] = useState<ReportLink[]>([])
+  const [confirmations, setConfirmations] = useState<ConfirmationSummary[]>([])
+  const [error, setError] = useState("")
+  const [updating, setUpdating] = useState(false)
+
+  const load = useCallback(async () => {
+    setError("")
+    try {
+      const res = await fetch(`/api/admin/reports/${encodeURIComponent(id)}`)
+      const result = await res.json()
+      if (!res.ok) {
+        setError(result.message || "Could not load the report")
+        return
+      }
+      setReport(result.report)
+      setAsset(result.asset)
+      setDuplicateOf(result.duplicateOf)
+      setDuplicates(result.duplicates)
+      setConfirmations(result.confirmations)
+    } catch {
+      setError("Network error")
+    }
+  }, [id])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const updateStatus = async (status: StaffReportStatus) => {
+    setUpdating(true)
+    try {
+      const res = await fetch(`/api/admin/reports/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      })
+      const result = await res.json()
+      if (res.ok) {
+        setReport(result.report)
+      } else {
+        setError(result.message || "Could not update the report")
+      }
+    } catch {
+      setError("Network error")
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const details: [string, string | null][] = report
+    ? [
+        ["Reported", formatTime(report.createdAt)],
+        ["Observed", formatTime(report.observedAt)],
+        ["Last update", formatTime(report.updatedAt)],
+        [
+          "Confirmed still there",
+          report.lastConfirmedAt
+            ? `${pluralTimes(report.confirmationCount)}, last ${formatTime(report.lastConfirmedAt)}`
+            : null,
+        ],
+        ["Department", report.departmentId ? getDepartment(report.departmentId)?.name ?? report.departmentId : null],
+        ["Address", report.nearestAddress],
+        ["Cross street", report.crossStreet],
+        ["Neighborhood", report.neighborhood],
+        ["Supervisor district", report.supervisorDistrict],
+        ["Police district", report.policeDistrict],
+        ["Coordinates", `${report.lat.toFixed(6)}, ${report.lon.toFixed(6)}`],
+        ["Location source", LOCATION_SOURCE_LABELS[report.locationSource]],
+        ["Accuracy", report.accuracy === null ? null : `±${Math.round(report.accuracy)} m`],
+        ["QR code", asset ? [asset.code, asset.label].filter(Boolean).join(" — ") : null],
+        ["Delivery reference", report.deliveryReference],
+        ["Correlation ID", report.correlationId],
+      ]
+    : []
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" asChild>
+        <Link href="/admin">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          All Reports
+        </Link>
+      </Button>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {report && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h1 className="text-2xl font-bold font-mono">{report.reportNumber ?? report.id}</h1>
+            <div className="flex items-center gap-2">
+              <ReportStatusBadge status={report.status} />
+              {staff.can("reports:update") && (
+                <>
+                  <Select
+                    value=""
+                    onValueChange={(value) => updateStatus(value as StaffReportStatus)}
+                    disabled={updating}
+                  >
+                    <SelectTrigger className="h-8 w-40">
+                      <SelectValue placeholder="Change status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STAFF_REPORT_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {REPORT_STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {updating && <Loader2 className="w-4 h-4 animate-spin" />}
+                </>
+              )}
+            </div>
+          </div>
+
+          {duplicateOf && (
+            <p className="text-sm text-muted-foreground">
+              Filed near an open report and linked to it instead of being sent:{" "}
+              <Link href={`/admin/reports/${duplicateOf.id}`} className="font-mono underline">
+                {duplicateOf.reportNumber ?? duplicateOf.id}
+              </Link>
+            </p>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Message</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="whitespace-pre-wrap">{report.message}</p>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                  {details
+                    .filter(([, value]) => value)
+                    .map(([label, value]) => (
+                      <div key={label} className="contents">
+                        <dt className="text-muted-foreground">{label}</dt>
+                        <dd className="break-words">{value}</dd>
+                      </div>
+                    ))}
+                </dl>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Location</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ReportLocationMap lat={report.lat} lon={report.lon} accuracy={report.accuracy} />
+              </CardContent>
+            </Card>
+          </div>
+
+          {duplicates.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Also Reported By ({duplicates.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1 text-sm">
+                  {duplicates.map((duplicate) => (
+                    <li key={duplicate.id}>
+                      <Link href={`/admin/reports/${duplicate.id}`} className="font-mono underline">
+                        {duplicate.reportNumber ?? duplicate.id}
+                      </Link>{" "}
+                      <span className="text-muted-foreground">{formatTime(duplicate.createdAt)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          {confirmations.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Still-There Confirmations ({confirmations.length})</CardTitle>
+              </CardHeader>
+              <CardContent className="grid gap-4 sm:grid-cols-2">
+                {confirmations.map((confirmation) => {
+                  const url = `/api/admin/reports/${encodeURIComponent(report.id)}/confirmations/${confirmation.id}/photo`
+                  return (
+                    <div key={confirmation.id} className="space-y-2">
+                      <p className="text-sm text-muted-foreground">{formatTime(confirmation.createdAt)}</p>
+                      {confirmation.hasPhoto && (
+                        <a href={url} target="_blank" rel="noreferrer">
+                          <img src={url} alt="Confirmation photo" className="w-full rounded-md border" />
+                        </a>
+                      )}
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+          )}
+
+          {report.photoRefs.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Photos</CardTitle>
+              </CardHeader>
+              <CardContent className="grid gap-4 sm:grid-cols-2">
+                {report.photoRefs.map((photoRef, index) => {
+                  const url = `/api/admin/reports/${encodeURIComponent(report.id)}/photos/${index + 1}`
+                  return (
+                    <a key={photoRef} href={url} target="_blank" rel="noreferrer">
+                      <img src={url} alt={`Photo ${index + 1}`} className="w-full rounded-md border" />
+                    </a>
+                  )
+                })}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import type { Map as LeafletMap } from "leaflet"
+import "leaflet/dist/leaflet.css"
+import { addBasemap } from "@/lib/map-basemap"
+
+interface ReportLocationMapProps {
+  lat: number
+  lon: number
+  // GPS accuracy radius in meters, drawn around the pin when known
+  accuracy?: number | null
+}
+
+// Read-only map with a pin on a report's location
+export function ReportLocationMap({ lat, lon, accuracy }: ReportLocationMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const mapRef = useRef<LeafletMap | null>(null)
+
+  // Leaflet touches `window`, so it is loaded only in the browser
+  useEffect(() => {
+    let cancelled = false
+
+    import("leaflet").then(({ default: L }) => {
+      if (cancelled || !containerRef.current) return
+
+      const map = L.map(containerRef.current).setView([lat, lon], 17)
+      addBasemap(L, map)
+      L.marker([lat, lon], {
+        icon: L.divIcon({
+          className: "",
+          html: '<div class="w-5 h-5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-primary border-2 border-white shadow"></div>',
+        }),
+      }).addTo(map)
+      if (accuracy) L.circle([lat, lon], { radius: accuracy, weight: 1 }).addTo(map)
+
+      mapRef.current = map
+    })
+
+    return () => {
+      cancelled = true
+      mapRef.current?.remove()
+      mapRef.current = null
+    }
+  }, [lat, lon, accuracy])
+
+  return <div ref={containerRef} className="h-64 w-full rounded-md border z-0" />
+}
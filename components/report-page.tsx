@@ -0,0 +1,731 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useRef, useCallback, useEffect, useMemo } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import {
+  MapPin,
+  CheckCircle,
+  AlertCircle,
+  Loader2,
+  RefreshCw,
+  Paperclip,
+  XCircle,
+  Trash2,
+  Camera,
+  ChevronUp,
+  ChevronDown,
+  QrCode,
+} from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select"
+import { ThemeToggle } from "@/components/theme-toggle"
+import { Turnstile } from "@/components/turnstile"
+import { ConfirmReport } from "@/components/confirm-report"
+import { LocationPicker } from "@/components/location-picker"
+import type { AssetSummary } from "@/lib/assets"
+import { departments } from "@/lib/departments"
+import { getDeviceId } from "@/lib/device-id"
+import { haversineMeters } from "@/lib/geo/geometry"
+import { readPhotoMetadata, type PhotoMetadata } from "@/lib/photo-metadata"
+import { MAX_SOURCE_BYTES, PhotoDecodeError, resizePhoto } from "@/lib/photo-resize"
+import { isFunnelStep, type SubmissionState } from "@/lib/submission-state"
+
+interface LocationData {
+  lat: number
+  lon: number
+  accuracy: number | null
+  timestamp: number
+  source: "gps" | "manual" | "photo" | "asset"
+}
+
+// GPS fixes less precise than this are confirmed on the map before submitting
+const MAX_GPS_ACCURACY_M = 150
+// Offer the photo's own location when it is further than this from the device fix
+const PHOTO_LOCATION_MIN_DIFFERENCE_M = 100
+// Keep in step with PHOTO_MAX_COUNT on the server
+const MAX_PHOTOS = 5
+
+interface AttachedPhoto {
+  id: string
+  name: string
+  blob: Blob
+  previewUrl: string
+  metadata: PhotoMetadata
+}
+
+interface SubmissionResponse {
+  status: "success" | "error"
+  delivery?: "sent" | "pending" | "duplicate"
+  reportId?: string
+  reportNumber?: string | null
+  // Set when the report was added to an earlier open report nearby
+  duplicateOf?: string | null
+  reference?: string
+  message?: string
+}
+
+// An open report near the reporter, from /api/reports/nearby. It carries no
+// distance or position, only the number for its status page.
+interface NearbyReport {
+  reportNumber: string
+}
+
+// Tells the server this QR scan reached a funnel step. Best effort: analytics must
+// never get in the way of the report itself.
+const recordScanStep = (scanId: string, step: string) => {
+  fetch(`/api/scans/${encodeURIComponent(scanId)}/steps`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ step }),
+    keepalive: true,
+  }).catch(() => {})
+}
+
+// `asset` is set on the QR landing route (/q/[code]): the form is prefilled from
+// it and its registered position can be used without a GPS fix. `scanId` is the
+// scan recorded for that visit, whose progress through the form is reported back.
+export function ReportPage({ asset = null, scanId = null }: { asset?: AssetSummary | null; scanId?: string | null }) {
+  const [state, setState] = useState<SubmissionState>("idle")
+  const [location, setLocation] = useState<LocationData | null>(null)
+  const [locationNotice, setLocationNotice] = useState<string>("")
+  const [response, setResponse] = useState<SubmissionResponse | null>(null)
+  const [error, setError] = useState<string>("")
+  const [message, setMessage] = useState("")
+  const [photos, setPhotos] = useState<AttachedPhoto[]>([])
+  // Set while newly picked photos are being resized
+  const [photoProgress, setPhotoProgress] = useState<{ current: number; total: number; fraction: number } | null>(
+    null,
+  )
+  const [departmentId, setDepartmentId] = useState<string>(asset?.departmentId ?? "")
+  const [turnstileToken, setTurnstileToken] = useState<string>("")
+  // Where to look for an existing report before the reporter uploads anything
+  const [checkPoint, setCheckPoint] = useState<{ lat: number; lon: number } | null>(
+    asset ? { lat: asset.lat, lon: asset.lon } : null,
+  )
+  const [nearbyReport, setNearbyReport] = useState<NearbyReport | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (scanId && isFunnelStep(state)) recordScanStep(scanId, state)
+  }, [scanId, state])
+
+  // Without a QR code, only look up the reporter's position when they already
+  // allowed it; asking for permission just for this would be intrusive
+  useEffect(() => {
+    if (asset || !navigator.geolocation || !navigator.permissions) return
+    let cancelled = false
+    navigator.permissions
+      .query({ name: "geolocation" })
+      .then((permission) => {
+        if (cancelled || permission.state !== "granted") return
+        navigator.geolocation.getCurrentPosition(
+          (position) => {
+            if (!cancelled) setCheckPoint({ lat: position.coords.latitude, lon: position.coords.longitude })
+          },
+          () => {},
+          { timeout: 10000, maximumAge: 5 * 60_000 },
+        )
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [asset])
+
+  // Best effort, like the scan steps: the form works the same without it
+  useEffect(() => {
+    if (!checkPoint) return
+    const controller = new AbortController()
+    const params = new URLSearchParams({ lat: String(checkPoint.lat), lon: String(checkPoint.lon) })
+    if (departmentId) params.set("department", departmentId)
+    fetch(`/api/reports/nearby?${params}`, { signal: controller.signal })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((result) => setNearbyReport(result?.report ?? null))
+      .catch(() => {})
+    return () => controller.abort()
+  }, [checkPoint, departmentId])
+
+  // Stable callbacks so the widget is not re-rendered on every keystroke
+  const handleTurnstileVerify = useCallback((token: string) => setTurnstileToken(token), [])
+  const handleTurnstileError = useCallback(() => setTurnstileToken(""), [])
+
+  const generateClientNonce = () => {
+    return crypto.randomUUID()
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    // Reset so picking the same file again still fires a change event
+    event.target.value = ""
+    if (files.length === 0) return
+
+    const room = MAX_PHOTOS - photos.length
+    if (files.length > room) {
+      setError(`You can attach up to ${MAX_PHOTOS} photos.`)
+    } else {
+      setError("")
+    }
+
+    const accepted = files.slice(0, Math.max(room, 0))
+    const added: AttachedPhoto[] = []
+    for (const [index, file] of accepted.entries()) {
+      setPhotoProgress({ current: index + 1, total: accepted.length, fraction: 0 })
+      if (file.size > MAX_SOURCE_BYTES) {
+        setError(`"${file.name}" is too large. Please select an image under ${MAX_SOURCE_BYTES / 1024 / 1024}MB.`)
+        continue
+      }
+      try {
+        // Read EXIF from the original file; resizing discards it
+        const [blob, metadata] = await Promise.all([
+          resizePhoto(file, (fraction) => setPhotoProgress({ current: index + 1, total: accepted.length, fraction })),
+          readPhotoMetadata(file),
+        ])
+        added.push({ id: crypto.randomUUID(), name: file.name, blob, previewUrl: URL.createObjectURL(blob), metadata })
+      } catch (err) {
+        setError(err instanceof PhotoDecodeError ? err.message : "Could not process image. Please try another one.")
+      }
+    }
+    setPhotoProgress(null)
+    setPhotos((current) => [...current, ...added].slice(0, MAX_PHOTOS))
+  }
+
+  const removePhoto = (id: string) => {
+    setPhotos((current) => {
+      const removed = current.find((photo) => photo.id === id)
+      if (removed) URL.revokeObjectURL(removed.previewUrl)
+      return current.filter((photo) => photo.id !== id)
+    })
+  }
+
+  const movePhoto = (index: number, offset: -1 | 1) => {
+    setPhotos((current) => {
+      const target = index + offset
+      if (target < 0 || target >= current.length) return current
+      const next = [...current]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  // Problems with the form are shown next to it; the error state is only for
+  // submissions that failed, which is what scan analytics counts it as
+  const validateForm = (): boolean => {
+    if (!message) {
+      setError("Message is required")
+      return false
+    }
+    if (photoProgress) {
+      setError("Please wait until your photos are ready")
+      return false
+    }
+    if (photos.length === 0) {
+      setError("Photo is required")
+      return false
+    }
+    if (!departmentId) {
+      setError("Please select a department or agency")
+      return false
+    }
+    if (process.env.NEXT_PUBLIC_TURNSTILE_SITE_KEY && !turnstileToken) {
+      setError("Please complete the verification challenge")
+      return false
+    }
+    return true
+  }
+
+  const handleLocationRequest = () => {
+    if (validateForm()) {
+      requestLocation()
+    }
+  }
+
+  // The first photo (in the reporter's order) that carries GPS tags. Memoised so
+  // the map picker does not re-initialise on every render.
+  const photoLocation = useMemo(() => {
+    const located = photos.find((photo) => photo.metadata.lat != null && photo.metadata.lon != null)
+    return located
+      ? { lat: located.metadata.lat!, lon: located.metadata.lon!, takenAt: located.metadata.takenAt }
+      : null
+  }, [photos])
+
+  const chooseLocationManually = (notice = "") => {
+    setLocationNotice(notice)
+    setError("")
+    setState("manual-location")
+  }
+
+  // When the device fix is missing or unusable, the photo's location is the next best option
+  const fallBackFromGps = (notice: string) => {
+    if (photoLocation || asset) {
+      setLocationNotice(notice)
+      setState("confirm-location")
+    } else {
+      chooseLocationManually(notice)
+    }
+  }
+
+  const handlePhotoLocation = async () => {
+    if (!photoLocation) return
+    const locationData: LocationData = {
+      lat: photoLocation.lat,
+      lon: photoLocation.lon,
+      accuracy: null,
+      timestamp: photoLocation.takenAt ?? Date.now(),
+      source: "photo",
+    }
+    setLocation(locationData)
+    await submitReport(locationData)
+  }
+
+  const handleAssetLocation = async () => {
+    if (!asset) return
+    // The server swaps in the registered position; these are only for display and rate limiting
+    const locationData: LocationData = {
+      lat: asset.lat,
+      lon: asset.lon,
+      accuracy: null,
+      timestamp: Date.now(),
+      source: "asset",
+    }
+    setLocation(locationData)
+    await submitReport(locationData)
+  }
+
+  const handleManualLocation = async ({ lat, lon }: { lat: number; lon: number }) => {
+    const locationData: LocationData = { lat, lon, accuracy: null, timestamp: Date.now(), source: "manual" }
+    setLocation(locationData)
+    await submitReport(locationData)
+  }
+
+  const requestLocation = async () => {
+    setState("requesting-location")
+    setError("")
+
+    if (!navigator.geolocation) {
+      fallBackFromGps("Your browser can't share its location.")
+      return
+    }
+
+    try {
+      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+        navigator.geolocation.getCurrentPosition(resolve, reject, {
+          enableHighAccuracy: true,
+          timeout: 15000,
+          maximumAge: 60000,
+        })
+      })
+
+      const locationData: LocationData = {
+        lat: position.coords.latitude,
+        lon: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        timestamp: Date.now(),
+        source: "gps",
+      }
+
+      setLocation(locationData)
+      if (position.coords.accuracy > MAX_GPS_ACCURACY_M) {
+        fallBackFromGps(`Your location is only accurate to about ${Math.round(position.coords.accuracy)}m.`)
+        return
+      }
+      // The photo may have been taken somewhere else, e.g. before walking away
+      if (
+        photoLocation &&
+        haversineMeters(locationData.lat, locationData.lon, photoLocation.lat, photoLocation.lon) >
+          PHOTO_LOCATION_MIN_DIFFERENCE_M
+      ) {
+        setLocationNotice("Your photo was taken somewhere else than where you are now.")
+        setState("confirm-location")
+        return
+      }
+      await submitReport(locationData)
+    } catch (err) {
+      // Fall back to the photo location or map picker rather than dead-ending in the error state
+      if (err instanceof GeolocationPositionError) {
+        switch (err.code) {
+          case err.PERMISSION_DENIED:
+            fallBackFromGps("Location access denied.")
+            break
+          case err.POSITION_UNAVAILABLE:
+            fallBackFromGps("Location information unavailable.")
+            break
+          case err.TIMEOUT:
+            fallBackFromGps("Location request timed out.")
+            break
+          default:
+            fallBackFromGps("An error occurred while getting your location.")
+        }
+      } else {
+        fallBackFromGps("Failed to get location.")
+      }
+    }
+  }
+
+  const submitReport = async (locationData: LocationData) => {
+    setState("submitting")
+
+    try {
+      // Multipart keeps the photo binary instead of inflating it as base64
+      const payload = new FormData()
+      payload.append("lat", String(locationData.lat))
+      payload.append("lon", String(locationData.lon))
+      if (locationData.accuracy !== null) payload.append("accuracy", String(locationData.accuracy))
+      payload.append("timestamp", String(locationData.timestamp))
+      payload.append("location_source", locationData.source)
+      payload.append("client_nonce", generateClientNonce())
+      payload.append("message", message)
+      payload.append("departmentId", departmentId)
+      if (turnstileToken) payload.append("turnstileToken", turnstileToken)
+      const deviceId = getDeviceId()
+      if (deviceId) payload.append("device_id", deviceId)
+      if (asset) payload.append("asset_code", asset.code)
+      photos.forEach((photo, index) => payload.append("photo", photo.blob, `photo-${index + 1}.jpg`))
+
+      const res = await fetch("/api/submit", {
+        method: "POST",
+        body: payload,
+      })
+
+      const result: SubmissionResponse = await res.json()
+
+      if (res.ok) {
+        setResponse(result)
+        setState("success")
+      } else {
+        setError(result.message || "Failed to submit report. Please try again.")
+        setState("error")
+      }
+    } catch (err) {
+      setError("Network error. Please check your connection and try again.")
+      setState("error")
+    }
+  }
+
+  const retry = () => {
+    setState("idle")
+    setLocationNotice("")
+    // Tokens are single-use; the widget issues a new one when it remounts
+    setTurnstileToken("")
+    setLocation(null)
+    setResponse(null)
+    setError("")
+    setMessage("")
+    photos.forEach((photo) => URL.revokeObjectURL(photo.previewUrl))
+    setPhotos([])
+  }
+
+  const renderContent = () => {
+    switch (state) {
+      case "idle":
+        return (
+          <div className="space-y-4">
+            {nearbyReport && (
+              <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm space-y-1 dark:border-amber-800 dark:bg-amber-950/50">
+                <p className="font-medium">This may already have been reported</p>
+                <p className="text-muted-foreground">
+                  An open report was filed near here recently. If it is the same issue, you can confirm it is
+                  still there instead. Reporting it anyway adds yours to it.
+                </p>
+                <Link href={`/r/${nearbyReport.reportNumber}`} className="font-medium underline">
+                  See report {nearbyReport.reportNumber}
+                </Link>
+                <ConfirmReport reportNumber={nearbyReport.reportNumber} />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="message">Message</Label>
+              <Textarea
+                id="message"
+                placeholder="Describe the issue in detail"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={3}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Photos</Label>
+              {photos.map((photo, index) => (
+                <div key={photo.id} className="flex items-center justify-between p-2 border rounded-md bg-muted/50">
+                  <div className="flex items-center gap-2 truncate">
+                    <img
+                      src={photo.previewUrl || "/placeholder.svg"}
+                      alt={`Photo ${index + 1}`}
+                      className="w-10 h-10 rounded-sm object-cover"
+                    />
+                    <span className="text-sm text-muted-foreground truncate">
+                      {index + 1}. {photo.name}
+                    </span>
+                  </div>
+                  <div className="flex items-center shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Move up"
+                      disabled={index === 0}
+                      onClick={() => movePhoto(index, -1)}
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Move down"
+                      disabled={index === photos.length - 1}
+                      onClick={() => movePhoto(index, 1)}
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" aria-label="Remove photo" onClick={() => removePhoto(photo.id)}>
+                      <XCircle className="w-5 h-5 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {photoProgress && (
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">
+                    {photoProgress.total > 1
+                      ? `Preparing photo ${photoProgress.current} of ${photoProgress.total}…`
+                      : "Preparing photo…"}
+                  </p>
+                  <Progress value={Math.round(photoProgress.fraction * 100)} />
+                </div>
+              )}
+              {photos.length < MAX_PHOTOS && (
+                <Button
+                  variant="outline"
+                  className="w-full bg-transparent"
+                  disabled={photoProgress !== null}
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <Paperclip className="w-4 h-4 mr-2" />
+                  {photos.length === 0 ? "Attach Photo" : `Add Another Photo (${photos.length}/${MAX_PHOTOS})`}
+                </Button>
+              )}
+              {photos.length > 1 && (
+                <p className="text-xs text-muted-foreground">The first photo is shown first to the department.</p>
+              )}
+              <input
+                type="file"
+                accept="image/*,.heic,.heif"
+                multiple
+                ref={fileInputRef}
+                onChange={handleFileChange}
+                className="hidden"
+              />
+
+              <div className="space-y-2">
+                <Label htmlFor="department">Department / Agency</Label>
+                <Select value={departmentId} onValueChange={setDepartmentId}>
+                  <SelectTrigger id="department">
+                    <SelectValue placeholder="Select Department / Agency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {departments.map((department) => (
+                      <SelectItem key={department.id} value={department.id}>
+                        {department.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Turnstile onVerify={handleTurnstileVerify} onError={handleTurnstileError} />
+            {error && <p className="text-sm text-destructive text-center">{error}</p>}
+            {asset ? (
+              <>
+                <Button
+                  onClick={() => validateForm() && handleAssetLocation()}
+                  className="w-full h-12 text-lg"
+                  size="lg"
+                >
+                  <QrCode className="w-5 h-5 mr-2" />
+                  Report at This Spot
+                </Button>
+                <Button variant="link" className="w-full" onClick={handleLocationRequest}>
+                  The issue is elsewhere? Use my location
+                </Button>
+              </>
+            ) : (
+              <Button onClick={handleLocationRequest} className="w-full h-12 text-lg" size="lg">
+                <MapPin className="w-5 h-5 mr-2" />
+                Allow Location & Report
+              </Button>
+            )}
+            <Button
+              variant="link"
+              className="w-full"
+              onClick={() => validateForm() && chooseLocationManually()}
+            >
+              Choose location on a map instead
+            </Button>
+          </div>
+        )
+      case "confirm-location":
+        return (
+          <div className="space-y-3">
+            {locationNotice && <p className="text-sm text-muted-foreground text-center">{locationNotice}</p>}
+            <p className="text-center font-medium">Where is the issue?</p>
+            {asset && (
+              <Button variant="outline" className="w-full h-auto py-3 flex-col bg-transparent" onClick={handleAssetLocation}>
+                <span className="flex items-center">
+                  <QrCode className="w-4 h-4 mr-2" />
+                  Use the QR code&apos;s location
+                </span>
+                {asset.label && <span className="text-xs text-muted-foreground font-normal">{asset.label}</span>}
+              </Button>
+            )}
+            {photoLocation && (
+              <Button variant="outline" className="w-full h-auto py-3 flex-col bg-transparent" onClick={handlePhotoLocation}>
+                <span className="flex items-center">
+                  <Camera className="w-4 h-4 mr-2" />
+                  Use photo location
+                </span>
+                <span className="text-xs text-muted-foreground font-normal">
+                  {photoLocation.takenAt
+                    ? `Where the photo was taken, ${new Date(photoLocation.takenAt).toLocaleString()}`
+                    : "Where the photo was taken"}
+                  {location?.source === "gps" &&
+                    ` · ${Math.round(haversineMeters(location.lat, location.lon, photoLocation.lat, photoLocation.lon))}m from you`}
+                </span>
+              </Button>
+            )}
+            {location?.source === "gps" && location.accuracy !== null && location.accuracy <= MAX_GPS_ACCURACY_M && (
+              <Button variant="outline" className="w-full h-auto py-3 bg-transparent" onClick={() => submitReport(location)}>
+                <MapPin className="w-4 h-4 mr-2" />
+                Use my current location
+              </Button>
+            )}
+            <Button variant="link" className="w-full" onClick={() => chooseLocationManually()}>
+              Pick the spot on a map instead
+            </Button>
+          </div>
+        )
+      case "manual-location":
+        return (
+          <div className="space-y-3">
+            {locationNotice && (
+              <p className="text-sm text-muted-foreground text-center">{locationNotice} Choose the spot on the map.</p>
+            )}
+            <LocationPicker
+              initial={location ?? photoLocation}
+              onConfirm={handleManualLocation}
+              onCancel={() => setState("idle")}
+            />
+          </div>
+        )
+      case "requesting-location":
+      case "submitting":
+        return (
+          <div className="text-center space-y-4 p-8">
+            <Loader2 className="w-10 h-10 animate-spin mx-auto text-primary" />
+            <p className="text-muted-foreground text-lg">
+              {state === "requesting-location" ? "Getting your location..." : "Submitting your report..."}
+            </p>
+          </div>
+        )
+      case "success":
+        return (
+          <div className="text-center space-y-4 sm:space-y-6 p-4 sm:p-6">
+            <div className="w-16 h-16 bg-green-100 dark:bg-green-900/50 rounded-full flex items-center justify-center mx-auto">
+              <CheckCircle className="w-10 h-10 text-green-600 dark:text-green-400" />
+            </div>
+            <div className="space-y-2">
+              <h2 className="text-2xl font-bold">
+                {response?.delivery === "pending"
+                  ? "Report Received"
+                  : response?.delivery === "duplicate"
+                    ? "Already Reported"
+                    : "Report Submitted!"}
+              </h2>
+              <p className="text-muted-foreground">
+                {response?.delivery === "pending"
+                  ? "Your report is saved and will be delivered to the department shortly."
+                  : response?.delivery === "duplicate"
+                    ? `Someone reported this nearby recently, so your report was added to theirs${
+                        response.duplicateOf ? ` (${response.duplicateOf})` : ""
+                      } instead of being sent again. Thank you!`
+                    : "Thank you for helping keep San Francisco clean."}
+              </p>
+            </div>
+            {response?.reportNumber && (
+              <div className="space-y-3">
+                <div className="rounded-md border bg-muted/50 p-3">
+                  <p className="text-xs text-muted-foreground">Your report number</p>
+                  <p className="text-2xl font-mono font-semibold tracking-wider">{response.reportNumber}</p>
+                </div>
+                <Button asChild className="w-full">
+                  <Link href={`/r/${response.reportNumber}`}>Track Your Report</Link>
+                </Button>
+              </div>
+            )}
+            <Button onClick={retry} variant="outline" className="w-full bg-transparent">
+              Report Another Issue
+            </Button>
+          </div>
+        )
+      case "error":
+        return (
+          <div className="text-center space-y-4 sm:space-y-6 p-4 sm:p-6">
+            <div className="w-16 h-16 bg-red-100 dark:bg-red-900/50 rounded-full flex items-center justify-center mx-auto">
+              <AlertCircle className="w-10 h-10 text-red-600 dark:text-red-400" />
+            </div>
+            <div className="space-y-2">
+              <h2 className="text-2xl font-bold">Unable to Submit</h2>
+              <p className="text-muted-foreground">{error}</p>
+            </div>
+            <Button onClick={retry} className="w-full">
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Try Again
+            </Button>
+          </div>
+        )
+    }
+  }
+
+  return (
+    <div className="relative min-h-screen w-full">
+      <div
+        className="absolute inset-0 bg-cover bg-center blur-xs"
+        style={{
+          backgroundImage:
+            "url('https://images.unsplash.com/photo-1501594907352-04cda38ebc29?q=80&w=2070&auto=format&fit=crop')",
+        }}
+      />
+      <div className="absolute inset-0 bg-black/30" />
+      <main className="relative z-10 flex min-h-screen w-full flex-col items-center justify-center p-2 sm:p-4 md:p-8">
+        <div className="absolute top-4 right-4">
+          <ThemeToggle />
+        </div>
+        <Card className="w-full max-w-md mx-auto shadow-lg bg-background border-white/20 sm:rounded-xl">
+          <CardHeader className="text-center">
+            <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-2">
+              <Trash2 className="w-8 h-8 text-primary" />
+            </div>
+            <CardTitle className="text-xl sm:text-2xl">SF Garbage Reporter</CardTitle>
+            <CardDescription>Help keep San Francisco clean. Fast and anonymous.</CardDescription>
+            {asset && (
+              <p className="text-sm text-muted-foreground flex items-center justify-center gap-1">
+                <QrCode className="w-4 h-4" />
+                {[`Code ${asset.code}`, asset.label].filter(Boolean).join(" · ")}
+              </p>
+            )}
+          </CardHeader>
+          <CardContent>{renderContent()}</CardContent>
+          <CardFooter>
+            <p className="text-xs text-muted-foreground text-center w-full">
+              Your location is stored with your report so city crews can find the issue.
+            </p>
+          </CardFooter>
+        </Card>
+      </main>
+    </div>
+  )
+}
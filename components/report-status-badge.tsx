@@ -0,0 +1,16 @@
+import { Badge } from "@/components/ui/badge"
+import { REPORT_STATUS_LABELS, type ReportStatus } from "@/lib/report-types"
+
+const VARIANTS: Record<ReportStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  received: "outline",
+  delivered: "default",
+  delivery_pending: "outline",
+  failed: "destructive",
+  acknowledged: "default",
+  resolved: "secondary",
+  duplicate: "secondary",
+}
+
+export function ReportStatusBadge({ status }: { status: ReportStatus }) {
+  return <Badge variant={VARIANTS[status]}>{REPORT_STATUS_LABELS[status]}</Badge>
+}
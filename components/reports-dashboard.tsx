@@ -0,0 +1,500 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts"
+import { ClipboardList, Loader2, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ReportStatusBadge } from "@/components/report-status-badge"
+import { useStaff } from "@/hooks/use-staff"
+import { isDepartmentScoped } from "@/lib/auth/roles"
+import { departments, getDepartment } from "@/lib/departments"
+import {
+  REPORT_SORTS,
+  REPORT_SORT_LABELS,
+  REPORT_STATUSES,
+  REPORT_STATUS_LABELS,
+  STAFF_REPORT_STATUSES,
+  type ReportSort,
+  type ReportStatus,
+  type StaffReportStatus,
+} from "@/lib/report-types"
+import type { Report } from "@/lib/reports"
+
+const PAGE_SIZE = 50
+// Select has no empty value, so "all" stands for no filter
+const ALL = "all"
+
+const chartConfig = {
+  count: { label: "Reports", color: "var(--chart-1)" },
+} satisfies ChartConfig
+
+interface Filters {
+  from: string
+  to: string
+  department: string
+  neighborhood: string
+  status: string
+  q: string
+  sort: ReportSort
+}
+
+const EMPTY_FILTERS: Filters = {
+  from: "",
+  to: "",
+  department: ALL,
+  neighborhood: ALL,
+  status: ALL,
+  q: "",
+  sort: "newest",
+}
+
+interface ReportSummary {
+  byStatus: Record<ReportStatus, number>
+  byHour: { hour: string; count: number }[]
+}
+
+// YYYY-MM-DD in the browser's time zone
+const localDay = (date: Date) => new Intl.DateTimeFormat("en-CA").format(date)
+
+// The API counts per UTC hour; regroup into local days, filling days without reports
+function reportsPerDay(byHour: ReportSummary["byHour"]): { day: string; count: number }[] {
+  const counts = new Map<string, number>()
+  for (const { hour, count } of byHour) {
+    const day = localDay(new Date(`${hour}:00:00Z`))
+    counts.set(day, (counts.get(day) ?? 0) + count)
+  }
+  const days = [...counts.keys()].sort()
+  if (days.length === 0) return []
+
+  const result: { day: string; count: number }[] = []
+  for (let day = days[0]; day <= days[days.length - 1]; ) {
+    result.push({ day, count: counts.get(day) ?? 0 })
+    const next = new Date(`${day}T12:00`)
+    next.setDate(next.getDate() + 1)
+    day = localDay(next)
+  }
+  return result
+}
+
+// Filter values as API query parameters; dates cover whole local days
+function toQuery(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00`).toISOString())
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00`)
+    end.setDate(end.getDate() + 1)
+    params.set("to", end.toISOString())
+  }
+  for (const key of ["department", "neighborhood", "status"] as const) {
+    if (filters[key] !== ALL) params.set(key, filters[key])
+  }
+  if (filters.q.trim()) params.set("q", filters.q.trim())
+  if (filters.sort !== "newest") params.set("sort", filters.sort)
+  return params
+}
+
+// Page numbers around the current one, with null marking a gap
+function pageWindow(current: number, count: number): (number | null)[] {
+  const pages = new Set([0, count - 1, current - 1, current, current + 1].filter((page) => page >= 0 && page < count))
+  const sorted = [...pages].sort((a, b) => a - b)
+  return sorted.flatMap((page, index) => (index > 0 && page - sorted[index - 1] > 1 ? [null, page] : [page]))
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString([], { dateStyle: "short", timeStyle: "short" })
+
+export function ReportsDashboard({ neighborhoods }: { neighborhoods: string[] }) {
+  const staff = useStaff()
+  const canUpdate = staff.can("reports:update")
+  // The API limits department admins to their department whatever the filter says
+  const departmentLocked = isDepartmentScoped(staff.role)
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS)
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [page, setPage] = useState(0)
+  const [reports, setReports] = useState<Report[]>([])
+  const [total, setTotal] = useState(0)
+  const [summary, setSummary] = useState<ReportSummary | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [bulkStatus, setBulkStatus] = useState<StaffReportStatus>("acknowledged")
+  const [updating, setUpdating] = useState(false)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError("")
+    try {
+      const params = toQuery(filters)
+      params.set("limit", String(PAGE_SIZE))
+      params.set("offset", String(page * PAGE_SIZE))
+      const res = await fetch(`/api/admin/reports?${params}`)
+      const result = await res.json()
+      if (!res.ok) {
+        setError(result.message || "Could not load reports")
+        return
+      }
+      setReports(result.reports)
+      setTotal(result.total)
+      setSummary(result.summary)
+      setSelected(new Set())
+    } catch {
+      setError("Network error")
+    } finally {
+      setLoading(false)
+    }
+  }, [filters, page])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const applyFilters = (next: Filters) => {
+    setDraft(next)
+    setFilters(next)
+    setPage(0)
+  }
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (checked) {
+        next.add(id)
+      } else {
+        next.delete(id)
+      }
+      return next
+    })
+  }
+
+  const applyBulkStatus = async () => {
+    setUpdating(true)
+    try {
+      const res = await fetch("/api/admin/reports", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: [...selected], status: bulkStatus }),
+      })
+      const result = await res.json()
+      if (!res.ok) {
+        setError(result.message || "Could not update reports")
+        return
+      }
+      await load()
+    } catch {
+      setError("Network error")
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const perDay = useMemo(() => reportsPerDay(summary?.byHour ?? []), [summary])
+  const pageCount = Math.ceil(total / PAGE_SIZE)
+  const allSelected = reports.length > 0 && reports.every((report) => selected.has(report.id))
+
+  return (
+    <>
+      <h1 className="text-2xl font-bold flex items-center gap-2">
+        <ClipboardList className="w-6 h-6" />
+        Reports
+      </h1>
+
+      <Card>
+        <CardContent>
+          <form
+            className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3"
+            onSubmit={(e) => {
+              e.preventDefault()
+              applyFilters(draft)
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="from">From</Label>
+              <Input
+                id="from"
+                type="date"
+                value={draft.from}
+                onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="to">To</Label>
+              <Input
+                id="to"
+                type="date"
+                value={draft.to}
+                onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="q">Report number or message</Label>
+              <Input id="q" value={draft.q} onChange={(e) => setDraft({ ...draft, q: e.target.value })} />
+            </div>
+            {!departmentLocked && (
+              <div className="space-y-1">
+                <Label>Department</Label>
+                <Select value={draft.department} onValueChange={(value) => setDraft({ ...draft, department: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All departments</SelectItem>
+                    {departments.map((department) => (
+                      <SelectItem key={department.id} value={department.id}>
+                        {department.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Neighborhood</Label>
+              <Select value={draft.neighborhood} onValueChange={(value) => setDraft({ ...draft, neighborhood: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All neighborhoods</SelectItem>
+                  {neighborhoods.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Status</Label>
+              <Select value={draft.status} onValueChange={(value) => setDraft({ ...draft, status: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {REPORT_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {REPORT_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Sort</Label>
+              <Select value={draft.sort} onValueChange={(value) => setDraft({ ...draft, sort: value as ReportSort })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_SORTS.map((sort) => (
+                    <SelectItem key={sort} value={sort}>
+                      {REPORT_SORT_LABELS[sort]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2 sm:col-span-2 lg:col-span-3">
+              <Button type="submit">
+                <Search className="w-4 h-4 mr-2" />
+                Apply Filters
+              </Button>
+              <Button type="button" variant="outline" onClick={() => applyFilters(EMPTY_FILTERS)}>
+                Clear
+              </Button>
+            </div>
+          </form>
+          {error && <p className="pt-3 text-sm text-destructive">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {summary && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{total} Reports</CardTitle>
+            <CardDescription className="flex flex-wrap gap-x-4 gap-y-1">
+              {REPORT_STATUSES.filter((status) => summary.byStatus[status] > 0).map((status) => (
+                <span key={status}>
+                  {REPORT_STATUS_LABELS[status]}: {summary.byStatus[status]}
+                </span>
+              ))}
+            </CardDescription>
+          </CardHeader>
+          {perDay.length > 0 && (
+            <CardContent>
+              <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+                <BarChart data={perDay}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="day"
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={24}
+                    tickFormatter={(day) => day.slice(5)}
+                  />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      <Card>
+        {canUpdate && (
+          <CardHeader>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">{selected.size} selected</span>
+              <Select value={bulkStatus} onValueChange={(value) => setBulkStatus(value as StaffReportStatus)}>
+                <SelectTrigger className="h-8 w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STAFF_REPORT_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {REPORT_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" disabled={selected.size === 0 || updating} onClick={applyBulkStatus}>
+                {updating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Set Status
+              </Button>
+            </div>
+          </CardHeader>
+        )}
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canUpdate && (
+                  <TableHead className="w-8">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) =>
+                        setSelected(checked === true ? new Set(reports.map((report) => report.id)) : new Set())
+                      }
+                      aria-label="Select all on this page"
+                    />
+                  </TableHead>
+                )}
+                <TableHead>Number</TableHead>
+                <TableHead>Reported</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Neighborhood</TableHead>
+                <TableHead>Message</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reports.map((report) => (
+                <TableRow key={report.id} data-state={selected.has(report.id) ? "selected" : undefined}>
+                  {canUpdate && (
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.has(report.id)}
+                        onCheckedChange={(checked) => toggle(report.id, checked === true)}
+                        aria-label={`Select report ${report.reportNumber ?? report.id}`}
+                      />
+                    </TableCell>
+                  )}
+                  <TableCell className="font-mono whitespace-nowrap">
+                    <Link href={`/admin/reports/${report.id}`} className="underline">
+                      {report.reportNumber ?? report.id.slice(0, 8)}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{formatTime(report.createdAt)}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <ReportStatusBadge status={report.status} />
+                    {report.confirmationCount > 0 && (
+                      <span className="ml-2 text-xs text-muted-foreground" title="Still-there confirmations">
+                        👍 {report.confirmationCount}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>{report.departmentId ? getDepartment(report.departmentId)?.name : "—"}</TableCell>
+                  <TableCell>{report.neighborhood ?? "—"}</TableCell>
+                  <TableCell className="max-w-[280px] truncate">
+                    {report.photoRefs.length > 0 && `📷 ${report.photoRefs.length} · `}
+                    {report.message}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!loading && reports.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canUpdate ? 7 : 6} className="text-center text-muted-foreground">
+                    No reports found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+          {pageCount > 1 && (
+            <Pagination className="pt-4">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    aria-disabled={page === 0}
+                    className={page === 0 ? "pointer-events-none opacity-50" : undefined}
+                    onClick={(e) => {
+                      e.preventDefault()
+                      setPage(Math.max(0, page - 1))
+                    }}
+                  />
+                </PaginationItem>
+                {pageWindow(page, pageCount).map((number, index) => (
+                  <PaginationItem key={number ?? `gap-${index}`}>
+                    {number === null ? (
+                      <PaginationEllipsis />
+                    ) : (
+                      <PaginationLink
+                        href="#"
+                        isActive={number === page}
+                        onClick={(e) => {
+                          e.preventDefault()
+                          setPage(number)
+                        }}
+                      >
+                        {number + 1}
+                      </PaginationLink>
+                    )}
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    aria-disabled={page >= pageCount - 1}
+                    className={page >= pageCount - 1 ? "pointer-events-none opacity-50" : undefined}
+                    onClick={(e) => {
+                      e.preventDefault()
+                      setPage(Math.min(pageCount - 1, page + 1))
+                    }}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -0,0 +1,591 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import type * as Leaflet from "leaflet"
+import "leaflet/dist/leaflet.css"
+import { Flame, Loader2, Map as MapIcon, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useStaff } from "@/hooks/use-staff"
+import { isDepartmentScoped } from "@/lib/auth/roles"
+import { departments, getDepartment } from "@/lib/departments"
+import { clusterPoints } from "@/lib/geo/cluster"
+import type { Hotspot } from "@/lib/hotspots"
+import { addBasemap } from "@/lib/map-basemap"
+import { SF_CENTER } from "@/lib/map-config"
+import { REPORT_STATUSES, REPORT_STATUS_LABELS, type ReportStatus } from "@/lib/report-types"
+import type { ReportPoint } from "@/lib/reports"
+
+// Select has no empty value, so "all" stands for no filter
+const ALL = "all"
+const DEFAULT_DAYS = 30
+// From this zoom on, clusters list their reports instead of zooming further in
+const MAX_CLUSTER_ZOOM = 17
+// Clusters at MAX_CLUSTER_ZOOM are only reports filed at practically the same spot
+const MAX_CLUSTER_CELL = 8
+
+const STATUS_COLORS: Record<ReportStatus, string> = {
+  received: "#64748b",
+  delivered: "#2563eb",
+  delivery_pending: "#d97706",
+  failed: "#dc2626",
+  acknowledged: "#7c3aed",
+  resolved: "#16a34a",
+  duplicate: "#94a3b8",
+}
+
+const DEPARTMENT_PALETTE = ["#2563eb", "#16a34a", "#d97706", "#dc2626", "#7c3aed", "#0891b2", "#db2777", "#65a30d"]
+const NO_DEPARTMENT_COLOR = "#64748b"
+
+// Reports carry no category of their own; the department they were routed to stands in for it
+type ColorBy = "status" | "department"
+
+// Markers cluster individual reports; the heatmap shows where they pile up
+type ReportLayer = "markers" | "heatmap"
+
+// Each report spreads this far on the heatmap, in meters so the picture holds across zoom levels
+const HEAT_RADIUS_M = 60
+const HEAT_COLOR = "#dc2626"
+const HOTSPOT_COLOR = "#ea580c"
+// Hotspots are drawn at least this large so small ones stay visible
+const MIN_HOTSPOT_RADIUS_M = 30
+
+interface Filters {
+  from: string
+  to: string
+  department: string
+  neighborhood: string
+  status: string
+}
+
+interface LegendEntry {
+  key: string
+  label: string
+  color: string
+}
+
+// YYYY-MM-DD in the browser's time zone
+const localDay = (date: Date) => new Intl.DateTimeFormat("en-CA").format(date)
+
+function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T12:00`)
+  date.setDate(date.getDate() + days)
+  return localDay(date)
+}
+
+function defaultFilters(): Filters {
+  const today = localDay(new Date())
+  return { from: addDays(today, -(DEFAULT_DAYS - 1)), to: today, department: ALL, neighborhood: ALL, status: ALL }
+}
+
+// Filter values as API query parameters; dates cover whole local days
+function toQuery(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00`).toISOString())
+  if (filters.to) params.set("to", new Date(`${addDays(filters.to, 1)}T00:00`).toISOString())
+  for (const key of ["department", "neighborhood", "status"] as const) {
+    if (filters[key] !== ALL) params.set(key, filters[key])
+  }
+  return params
+}
+
+// Every local day from `from` to `to`, inclusive
+function dayRange(from: string, to: string): string[] {
+  const days: string[] = []
+  for (let day = from; day <= to && days.length < 3660; day = addDays(day, 1)) days.push(day)
+  return days
+}
+
+function legendEntry(point: ReportPoint, colorBy: ColorBy): LegendEntry {
+  if (colorBy === "status") {
+    return { key: point.status, label: REPORT_STATUS_LABELS[point.status], color: STATUS_COLORS[point.status] }
+  }
+  const index = departments.findIndex((department) => department.id === point.departmentId)
+  if (index === -1) return { key: "none", label: "No department", color: NO_DEPARTMENT_COLOR }
+  return {
+    key: departments[index].id,
+    label: departments[index].name,
+    color: DEPARTMENT_PALETTE[index % DEPARTMENT_PALETTE.length],
+  }
+}
+
+// The colour most of a cluster's reports have
+function dominantColor(points: ReportPoint[], colorBy: ColorBy): string {
+  const counts = new Map<string, number>()
+  for (const point of points) {
+    const { color } = legendEntry(point, colorBy)
+    counts.set(color, (counts.get(color) ?? 0) + 1)
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0]
+}
+
+function clusterIcon(L: typeof Leaflet, count: number, color: string): Leaflet.DivIcon {
+  const size = count < 10 ? 32 : count < 100 ? 38 : 46
+  return L.divIcon({
+    className: "",
+    iconSize: [size, size],
+    html: `<div class="flex h-full w-full items-center justify-center rounded-full border-2 border-white text-xs
+      font-semibold text-white shadow" style="background:${color}">${count}</div>`,
+  })
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString([], { dateStyle: "medium" })
+
+function hotspotPopup(hotspot: Hotspot): string {
+  const department = hotspot.departmentId ? getDepartment(hotspot.departmentId)?.name : null
+  return `<div class="space-y-1 text-sm">
+    <p class="font-semibold">Hotspot · score ${hotspot.score.toFixed(2)}</p>
+    <p>${hotspot.reportCount} reports on ${hotspot.activeDays} days</p>
+    <p>${formatDate(hotspot.firstReportAt)} – ${formatDate(hotspot.lastReportAt)}</p>
+    ${hotspot.neighborhood ? `<p>${hotspot.neighborhood}</p>` : ""}
+    ${department ? `<p>${department}</p>` : ""}
+  </div>`
+}
+
+function popupContent(point: ReportPoint): string {
+  const department = point.departmentId ? getDepartment(point.departmentId)?.name : null
+  return `<div class="space-y-1 text-sm">
+    <p class="font-mono font-semibold">${point.reportNumber ?? "No report number"}</p>
+    <p>${REPORT_STATUS_LABELS[point.status]}${department ? ` · ${department}` : ""}</p>
+    <p>${new Date(point.createdAt).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}</p>
+    <a href="/admin/reports/${point.id}" class="underline">Open report</a>
+  </div>`
+}
+
+export function ReportsMap({ neighborhoods }: { neighborhoods: string[] }) {
+  const staff = useStaff()
+  // The API limits department admins to their department whatever the filter says
+  const departmentLocked = isDepartmentScoped(staff.role)
+  const [draft, setDraft] = useState<Filters>(defaultFilters)
+  const [filters, setFilters] = useState<Filters>(draft)
+  const [colorBy, setColorBy] = useState<ColorBy>("status")
+  const [layer, setLayer] = useState<ReportLayer>("markers")
+  const [showHotspots, setShowHotspots] = useState(false)
+  const [hotspots, setHotspots] = useState<Hotspot[]>([])
+  const [hotspotsComputedAt, setHotspotsComputedAt] = useState<string | null>(null)
+  const [points, setPoints] = useState<ReportPoint[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  // Indexes into `days` of the first and last day shown
+  const [dayWindow, setDayWindow] = useState<number[]>([0, 0])
+  const [zoom, setZoom] = useState(12)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const leafletRef = useRef<{
+    L: typeof Leaflet
+    map: Leaflet.Map
+    markers: Leaflet.LayerGroup
+    hotspots: Leaflet.LayerGroup
+    // Thousands of heatmap circles draw much faster on canvas than as SVG
+    canvas: Leaflet.Renderer
+  } | null>(null)
+  const [mapReady, setMapReady] = useState(false)
+
+  const days = useMemo(() => dayRange(filters.from, filters.to), [filters.from, filters.to])
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError("")
+    try {
+      const res = await fetch(`/api/admin/reports/map?${toQuery(filters)}`)
+      const result = await res.json()
+      if (!res.ok) {
+        setError(result.message || "Could not load reports")
+        return
+      }
+      setPoints(result.points)
+      setTotal(result.total)
+    } catch {
+      setError("Network error")
+    } finally {
+      setLoading(false)
+    }
+  }, [filters])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  useEffect(() => {
+    setDayWindow([0, Math.max(0, days.length - 1)])
+  }, [days])
+
+  // Hotspots come from the last batch run, not from the date range; the department filter still applies
+  useEffect(() => {
+    if (!showHotspots) return
+    const params = new URLSearchParams()
+    if (filters.department !== ALL) params.set("department", filters.department)
+    fetch(`/api/admin/hotspots?${params}`)
+      .then(async (res) => {
+        const result = await res.json()
+        if (!res.ok) {
+          setError(result.message || "Could not load hotspots")
+          return
+        }
+        setHotspots(result.hotspots)
+        setHotspotsComputedAt(result.computedAt)
+      })
+      .catch(() => setError("Network error"))
+  }, [showHotspots, filters.department])
+
+  // Leaflet touches `window`, so it is loaded only in the browser
+  useEffect(() => {
+    let cancelled = false
+
+    import("leaflet").then(({ default: L }) => {
+      if (cancelled || !containerRef.current) return
+
+      const map = L.map(containerRef.current).setView([SF_CENTER.lat, SF_CENTER.lon], 12)
+      addBasemap(L, map)
+      const markers = L.layerGroup().addTo(map)
+      const hotspots = L.layerGroup().addTo(map)
+      map.on("zoomend", () => setZoom(map.getZoom()))
+
+      leafletRef.current = { L, map, markers, hotspots, canvas: L.canvas() }
+      setZoom(map.getZoom())
+      setMapReady(true)
+    })
+
+    return () => {
+      cancelled = true
+      leafletRef.current?.map.remove()
+      leafletRef.current = null
+    }
+  }, [])
+
+  const visible = useMemo(() => {
+    if (days.length === 0) return points
+    const first = days[dayWindow[0]] ?? days[0]
+    const last = days[dayWindow[1]] ?? days[days.length - 1]
+    return points.filter((point) => {
+      const day = localDay(new Date(point.createdAt))
+      return day >= first && day <= last
+    })
+  }, [points, days, dayWindow])
+
+  // Frame the loaded reports whenever the filters change
+  useEffect(() => {
+    const leaflet = leafletRef.current
+    if (!mapReady || !leaflet || points.length === 0) return
+    const bounds = leaflet.L.latLngBounds(points.map((point) => [point.lat, point.lon] as [number, number]))
+    leaflet.map.fitBounds(bounds, { padding: [24, 24], maxZoom: 16 })
+  }, [mapReady, points])
+
+  useEffect(() => {
+    const leaflet = leafletRef.current
+    if (!mapReady || !leaflet) return
+    const { L, map, markers, canvas } = leaflet
+    markers.clearLayers()
+
+    if (layer === "heatmap") {
+      // Overlapping translucent circles add up, so dense areas come out darkest
+      for (const point of visible) {
+        L.circle([point.lat, point.lon], {
+          radius: HEAT_RADIUS_M,
+          renderer: canvas,
+          stroke: false,
+          fillColor: HEAT_COLOR,
+          fillOpacity: 0.15,
+          interactive: false,
+        }).addTo(markers)
+      }
+      return
+    }
+
+    const zoomedIn = zoom >= MAX_CLUSTER_ZOOM
+    const clusters = zoomedIn ? clusterPoints(visible, zoom, MAX_CLUSTER_CELL) : clusterPoints(visible, zoom)
+    for (const cluster of clusters) {
+      if (cluster.items.length === 1) {
+        const [point] = cluster.items
+        L.circleMarker([point.lat, point.lon], {
+          radius: 7,
+          color: "#ffffff",
+          weight: 2,
+          fillColor: legendEntry(point, colorBy).color,
+          fillOpacity: 1,
+        })
+          .bindPopup(popupContent(point))
+          .addTo(markers)
+        continue
+      }
+
+      const marker = L.marker([cluster.lat, cluster.lon], {
+        icon: clusterIcon(L, cluster.items.length, dominantColor(cluster.items, colorBy)),
+      }).addTo(markers)
+      if (zoomedIn) {
+        marker.bindPopup(
+          `<div class="max-h-64 space-y-3 overflow-auto">${cluster.items.map(popupContent).join("")}</div>`,
+        )
+      } else {
+        marker.on("click", () => {
+          const bounds = L.latLngBounds(cluster.items.map((point) => [point.lat, point.lon] as [number, number]))
+          map.fitBounds(bounds, { padding: [48, 48], maxZoom: MAX_CLUSTER_ZOOM })
+        })
+      }
+    }
+  }, [mapReady, visible, zoom, colorBy, layer])
+
+  useEffect(() => {
+    const leaflet = leafletRef.current
+    if (!mapReady || !leaflet) return
+    const { L } = leaflet
+    leaflet.hotspots.clearLayers()
+    if (!showHotspots || hotspots.length === 0) return
+
+    const maxScore = Math.max(...hotspots.map((hotspot) => hotspot.score))
+    for (const hotspot of hotspots) {
+      L.circle([hotspot.lat, hotspot.lon], {
+        radius: Math.max(MIN_HOTSPOT_RADIUS_M, hotspot.radiusM),
+        color: HOTSPOT_COLOR,
+        weight: 2,
+        fillColor: HOTSPOT_COLOR,
+        // Higher scores are more opaque
+        fillOpacity: 0.15 + 0.45 * (maxScore > 0 ? hotspot.score / maxScore : 0),
+      })
+        .bindPopup(hotspotPopup(hotspot))
+        .addTo(leaflet.hotspots)
+    }
+  }, [mapReady, showHotspots, hotspots])
+
+  const focusHotspot = (hotspot: Hotspot) => {
+    leafletRef.current?.map.setView([hotspot.lat, hotspot.lon], MAX_CLUSTER_ZOOM - 1)
+  }
+
+  const legend = useMemo(() => {
+    const entries = new Map<string, LegendEntry>()
+    for (const point of visible) {
+      const entry = legendEntry(point, colorBy)
+      entries.set(entry.key, entry)
+    }
+    return [...entries.values()].sort((a, b) => a.label.localeCompare(b.label))
+  }, [visible, colorBy])
+
+  return (
+    <>
+      <h1 className="text-2xl font-bold flex items-center gap-2">
+        <MapIcon className="w-6 h-6" />
+        Report Map
+      </h1>
+
+      <Card>
+        <CardContent>
+          <form
+            className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3"
+            onSubmit={(e) => {
+              e.preventDefault()
+              setFilters(draft)
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="from">From</Label>
+              <Input
+                id="from"
+                type="date"
+                required
+                value={draft.from}
+                onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="to">To</Label>
+              <Input
+                id="to"
+                type="date"
+                required
+                value={draft.to}
+                onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Show reports as</Label>
+              <Select value={layer} onValueChange={(value) => setLayer(value as ReportLayer)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="markers">Markers</SelectItem>
+                  <SelectItem value="heatmap">Heatmap</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Colour by</Label>
+              <Select
+                value={colorBy}
+                disabled={layer !== "markers"}
+                onValueChange={(value) => setColorBy(value as ColorBy)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="status">Status</SelectItem>
+                  <SelectItem value="department">Department</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {!departmentLocked && (
+              <div className="space-y-1">
+                <Label>Department</Label>
+                <Select value={draft.department} onValueChange={(value) => setDraft({ ...draft, department: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All departments</SelectItem>
+                    {departments.map((department) => (
+                      <SelectItem key={department.id} value={department.id}>
+                        {department.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Neighborhood</Label>
+              <Select value={draft.neighborhood} onValueChange={(value) => setDraft({ ...draft, neighborhood: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All neighborhoods</SelectItem>
+                  {neighborhoods.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Status</Label>
+              <Select value={draft.status} onValueChange={(value) => setDraft({ ...draft, status: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {REPORT_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {REPORT_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 self-end pb-2">
+              <Switch id="hotspots" checked={showHotspots} onCheckedChange={setShowHotspots} />
+              <Label htmlFor="hotspots">Hotspots</Label>
+            </div>
+            <div className="flex gap-2 sm:col-span-2 lg:col-span-3">
+              <Button type="submit">
+                <Search className="w-4 h-4 mr-2" />
+                Apply Filters
+              </Button>
+            </div>
+          </form>
+          {error && <p className="pt-3 text-sm text-destructive">{error}</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            {visible.length} Reports
+            {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+          </CardTitle>
+          {total > points.length && (
+            <CardDescription>
+              Showing the newest {points.length} of {total} matching reports. Narrow the dates to see the rest.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {days.length > 1 && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>{days[dayWindow[0]]}</span>
+                <span>{days[dayWindow[1]]}</span>
+              </div>
+              <Slider
+                min={0}
+                max={days.length - 1}
+                step={1}
+                minStepsBetweenThumbs={0}
+                value={dayWindow}
+                onValueChange={setDayWindow}
+                aria-label="Days shown"
+              />
+            </div>
+          )}
+          <div ref={containerRef} className="h-[600px] w-full rounded-md border z-0" />
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+            {layer === "markers" &&
+              legend.map((entry) => (
+                <span key={entry.key} className="flex items-center gap-1.5">
+                  <span className="inline-block h-3 w-3 rounded-full" style={{ background: entry.color }} />
+                  {entry.label}
+                </span>
+              ))}
+            {showHotspots && (
+              <span className="flex items-center gap-1.5">
+                <span className="inline-block h-3 w-3 rounded-full border-2" style={{ borderColor: HOTSPOT_COLOR }} />
+                Hotspot
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {showHotspots && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Flame className="w-5 h-5" />
+              Top Hotspots
+            </CardTitle>
+            <CardDescription>
+              {hotspotsComputedAt
+                ? `Places reported again and again over the last six months, as of ${formatDate(hotspotsComputedAt)}.
+                  The score counts the days with reports, with recent days weighing more.`
+                : "Hotspots have not been computed yet."}
+            </CardDescription>
+          </CardHeader>
+          {hotspots.length > 0 && (
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Score</TableHead>
+                    <TableHead>Neighborhood</TableHead>
+                    <TableHead>Reports</TableHead>
+                    <TableHead>Days</TableHead>
+                    <TableHead>Last report</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {hotspots.slice(0, 10).map((hotspot) => (
+                    <TableRow key={hotspot.id} className="cursor-pointer" onClick={() => focusHotspot(hotspot)}>
+                      <TableCell className="font-mono">{hotspot.score.toFixed(2)}</TableCell>
+                      <TableCell>{hotspot.neighborhood ?? "—"}</TableCell>
+                      <TableCell>{hotspot.reportCount}</TableCell>
+                      <TableCell>{hotspot.activeDays}</TableCell>
+                      <TableCell>{formatDate(hotspot.lastReportAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          )}
+        </Card>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { BarChart3 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { AssetScanStats, ScanFunnel, SilentAsset } from "@/lib/scans"
+import { FUNNEL_STEPS, type FunnelStep } from "@/lib/submission-state"
+
+const PERIODS = [7, 30, 90, 365]
+
+const STEP_LABELS: Record<FunnelStep, string> = {
+  idle: "Opened the form",
+  "requesting-location": "Chose a location",
+  submitting: "Submitted",
+  success: "Report stored",
+  error: "Submission failed",
+}
+
+interface ScanAnalytics {
+  funnel: ScanFunnel
+  assets: AssetScanStats[]
+  silent: SilentAsset[]
+}
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : "Never")
+
+const percent = (count: number, of: number) => (of > 0 ? Math.round((count / of) * 100) : 0)
+
+export function ScanAnalytics() {
+  const [days, setDays] = useState(30)
+  const [analytics, setAnalytics] = useState<ScanAnalytics | null>(null)
+  const [error, setError] = useState("")
+
+  const load = useCallback(async () => {
+    setError("")
+    try {
+      const res = await fetch(`/api/admin/scans?days=${days}`)
+      const result = await res.json()
+      if (!res.ok) {
+        setError(result.message || "Could not load scan analytics")
+        return
+      }
+      setAnalytics(result)
+    } catch {
+      setError("Network error")
+    }
+  }, [days])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const funnel = analytics?.funnel
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <BarChart3 className="w-6 h-6" />
+          QR Scan Analytics
+        </h1>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map((period) => (
+              <SelectItem key={period} value={String(period)}>
+                Last {period} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {funnel && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Funnel</CardTitle>
+            <CardDescription>
+              {funnel.scanned} scans from people, plus {funnel.byUserAgent.bot} from bots and link previews. iOS{" "}
+              {funnel.byUserAgent.ios}, Android {funnel.byUserAgent.android}, desktop {funnel.byUserAgent.desktop}, other{" "}
+              {funnel.byUserAgent.other}. {funnel.reports} reports were filed from QR codes.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {FUNNEL_STEPS.map((step) => (
+              <div key={step} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>{STEP_LABELS[step]}</span>
+                  <span className="text-muted-foreground">
+                    {funnel.steps[step]} ({percent(funnel.steps[step], funnel.scanned)}%)
+                  </span>
+                </div>
+                <Progress value={percent(funnel.steps[step], funnel.scanned)} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {analytics && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Most Scanned</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Label</TableHead>
+                  <TableHead className="text-right">Scans</TableHead>
+                  <TableHead className="text-right">Reports</TableHead>
+                  <TableHead>Last Scan</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics.assets.map((asset) => (
+                  <TableRow key={asset.code}>
+                    <TableCell className="font-mono">{asset.code}</TableCell>
+                    <TableCell className="max-w-[240px] truncate">{asset.label}</TableCell>
+                    <TableCell className="text-right">{asset.scans}</TableCell>
+                    <TableCell className="text-right">{asset.reports}</TableCell>
+                    <TableCell>{formatTime(asset.lastScanAt)}</TableCell>
+                  </TableRow>
+                ))}
+                {analytics.assets.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">
+                      No scans in this period
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {analytics && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Not Scanned</CardTitle>
+            <CardDescription>
+              Active assets without a scan in this period. A code that used to be scanned and went quiet may be
+              damaged, covered or removed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Last Scan</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics.silent.map((asset) => (
+                  <TableRow key={asset.code}>
+                    <TableCell className="font-mono">{asset.code}</TableCell>
+                    <TableCell className="max-w-[240px] truncate">{asset.label}</TableCell>
+                    <TableCell>{formatTime(asset.lastScanAt)}</TableCell>
+                  </TableRow>
+                ))}
+                {analytics.silent.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">
+                      Every active asset was scanned
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  )
+}
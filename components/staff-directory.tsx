@@ -0,0 +1,250 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Loader2, UserPlus, Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useStaff } from "@/hooks/use-staff"
+import { STAFF_ROLES, STAFF_ROLE_LABELS, isDepartmentScoped, type StaffRole } from "@/lib/auth/roles"
+import type { StaffUser } from "@/lib/auth/staff"
+import { departments } from "@/lib/departments"
+
+const NO_DEPARTMENT = "none"
+
+export function StaffDirectory() {
+  const staff = useStaff()
+  const [users, setUsers] = useState<StaffUser[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [email, setEmail] = useState("")
+  const [name, setName] = useState("")
+  const [role, setRole] = useState<StaffRole>("viewer")
+  const [departmentId, setDepartmentId] = useState(NO_DEPARTMENT)
+  const [adding, setAdding] = useState(false)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError("")
+    try {
+      const res = await fetch("/api/admin/staff")
+      const result = await res.json()
+      if (!res.ok) {
+        setError(result.message || "Could not load staff")
+        return
+      }
+      setUsers(result.staff)
+    } catch {
+      setError("Network error")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const addUser = async () => {
+    setAdding(true)
+    setError("")
+    try {
+      const res = await fetch("/api/admin/staff", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          email,
+          name: name || undefined,
+          role,
+          department_id: departmentId === NO_DEPARTMENT ? undefined : departmentId,
+        }),
+      })
+      const result = await res.json()
+      if (!res.ok) {
+        setError(result.message || "Could not add staff member")
+        return
+      }
+      setUsers((current) => [...current, result.user].sort((a, b) => a.email.localeCompare(b.email)))
+      setEmail("")
+      setName("")
+    } catch {
+      setError("Network error")
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const updateUser = async (user: StaffUser, update: Record<string, unknown>) => {
+    const res = await fetch(`/api/admin/staff/${user.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(update),
+    })
+    const result = await res.json()
+    if (res.ok) {
+      setUsers((current) => current.map((item) => (item.id === user.id ? result.user : item)))
+    } else {
+      setError(result.message || "Could not update staff member")
+    }
+  }
+
+  return (
+    <>
+      <h1 className="text-2xl font-bold flex items-center gap-2">
+        <Users className="w-6 h-6" />
+        Staff
+      </h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Add Staff Member</CardTitle>
+          <CardDescription>
+            They can sign in with a link sent to this address, or through single sign-on if it is set up with the same
+            address. Department admins only see their department&apos;s reports.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="flex flex-wrap items-end gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              addUser()
+            }}
+          >
+            <div className="space-y-1 flex-1 min-w-[200px]">
+              <Label htmlFor="staff-email">Email</Label>
+              <Input id="staff-email" type="email" required value={email} onChange={(e) => setEmail(e.target.value)} />
+            </div>
+            <div className="space-y-1 flex-1 min-w-[160px]">
+              <Label htmlFor="staff-name">Name</Label>
+              <Input id="staff-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as StaffRole)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STAFF_ROLES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {STAFF_ROLE_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Department</Label>
+              <Select value={departmentId} onValueChange={setDepartmentId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!isDepartmentScoped(role) && <SelectItem value={NO_DEPARTMENT}>None</SelectItem>}
+                  {departments.map((department) => (
+                    <SelectItem key={department.id} value={department.id}>
+                      {department.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={adding || !email}>
+              {adding ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UserPlus className="w-4 h-4 mr-2" />}
+              Add
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6 space-y-2">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Last sign-in</TableHead>
+                <TableHead>Access</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => {
+                const isSelf = user.id === staff.id
+                return (
+                  <TableRow key={user.id} className={user.disabled ? "text-muted-foreground" : undefined}>
+                    <TableCell>{user.email}</TableCell>
+                    <TableCell>{user.name ?? "—"}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        disabled={isSelf}
+                        onValueChange={(value) => updateUser(user, { role: value })}
+                      >
+                        <SelectTrigger className="h-8 w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {STAFF_ROLES.map((value) => (
+                            <SelectItem key={value} value={value}>
+                              {STAFF_ROLE_LABELS[value]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.departmentId ?? NO_DEPARTMENT}
+                        onValueChange={(value) =>
+                          updateUser(user, { department_id: value === NO_DEPARTMENT ? null : value })
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_DEPARTMENT}>None</SelectItem>
+                          {departments.map((department) => (
+                            <SelectItem key={department.id} value={department.id}>
+                              {department.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>{user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : "Never"}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isSelf}
+                        onClick={() => updateUser(user, { disabled: !user.disabled })}
+                      >
+                        {user.disabled ? "Enable" : "Disable"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+              {!loading && users.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No staff yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { KeyRound, Loader2, Mail } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+interface StaffLoginFormProps {
+  error: string | null
+  // Set when an OpenID Connect provider is configured
+  sso: { name: string } | null
+}
+
+export function StaffLoginForm({ error, sso }: StaffLoginFormProps) {
+  const [email, setEmail] = useState("")
+  const [state, setState] = useState<"idle" | "sending" | "sent">("idle")
+  const [message, setMessage] = useState(error ?? "")
+
+  const requestLink = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setState("sending")
+    setMessage("")
+    try {
+      const res = await fetch("/api/auth/magic-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      })
+      if (res.ok) {
+        setState("sent")
+        return
+      }
+      const result = await res.json().catch(() => null)
+      setMessage(result?.message || "Could not send a sign-in link")
+    } catch {
+      setMessage("Network error")
+    }
+    setState("idle")
+  }
+
+  return (
+    <main className="min-h-screen w-full flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Staff Sign In</CardTitle>
+          <CardDescription>For city staff working with submitted reports.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {state === "sent" ? (
+            <p className="text-sm">
+              If <strong>{email}</strong> belongs to a staff account, a sign-in link is on its way. It expires in 15
+              minutes.
+            </p>
+          ) : (
+            <form onSubmit={requestLink} className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="email">Work email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={state === "sending"}>
+                {state === "sending" ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Mail className="w-4 h-4 mr-2" />
+                )}
+                Email Me a Sign-In Link
+              </Button>
+            </form>
+          )}
+          {message && <p className="pt-3 text-sm text-destructive">{message}</p>}
+        </CardContent>
+        {sso && (
+          <CardFooter>
+            <Button variant="outline" className="w-full" asChild>
+              <a href="/api/auth/oidc/login">
+                <KeyRound className="w-4 h-4 mr-2" />
+                Sign In with {sso.name}
+              </a>
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </main>
+  )
+}
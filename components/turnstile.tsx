@@ -18,7 +18,7 @@ declare global {
 
 export function Turnstile({ onVerify, onError }: TurnstileProps) {
   const ref = useRef<HTMLDivElement>(null)
-  const widgetId = useRef<string>()
+  const widgetId = useRef<string | undefined>(undefined)
 
   useEffect(() => {
     if (!process.env.NEXT_PUBLIC_TURNSTILE_SITE_KEY) return
@@ -0,0 +1,13 @@
+import * as React from "react"
+import { hasPermission, type Permission, type StaffSummary } from "@/lib/auth/roles"
+
+// The signed-in staff member, provided by the admin shell to every /admin page
+export const StaffContext = React.createContext<StaffSummary | null>(null)
+
+export function useStaff(): StaffSummary & { can: (permission: Permission) => boolean } {
+  const staff = React.useContext(StaffContext)
+  if (!staff) {
+    throw new Error("useStaff must be used within the admin shell")
+  }
+  return { ...staff, can: (permission) => hasPermission(staff.role, permission) }
+}
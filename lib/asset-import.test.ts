@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest"
+import { importAssetsCsv, parseCsv } from "./asset-import"
+import { getAssetByCode } from "./assets"
+
+describe("parseCsv", () => {
+  it("splits records and fields", () => {
+    expect(parseCsv("code,type\nBIN-1,bin\nBIN-2,bench\n")).toEqual([
+      { line: 1, values: ["code", "type"] },
+      { line: 2, values: ["BIN-1", "bin"] },
+      { line: 3, values: ["BIN-2", "bench"] },
+    ])
+  })
+
+  it("keeps commas, newlines and doubled quotes inside quoted fields", () => {
+    expect(parseCsv('label,code\n"Market St & 2nd St, ""north""\ncorner",BIN-1\nnext,BIN-2')).toEqual([
+      { line: 1, values: ["label", "code"] },
+      { line: 2, values: ['Market St & 2nd St, "north"\ncorner', "BIN-1"] },
+      { line: 4, values: ["next", "BIN-2"] },
+    ])
+  })
+
+  it("handles CRLF, a byte order mark and blank lines", () => {
+    expect(parseCsv("\uFEFFcode,type\r\n\r\nBIN-1,bin\r\n")).toEqual([
+      { line: 1, values: ["code", "type"] },
+      { line: 3, values: ["BIN-1", "bin"] },
+    ])
+  })
+
+  it("keeps empty fields", () => {
+    expect(parseCsv("a,,c\n,,")).toEqual([
+      { line: 1, values: ["a", "", "c"] },
+      { line: 2, values: ["", "", ""] },
+    ])
+  })
+})
+
+describe("importAssetsCsv", () => {
+  it("creates assets, then updates them by code", async () => {
+    const csv = [
+      "Type,Code,Lat,Lon,Label,Department_ID",
+      'bin,imp-1,37.7893,-122.4012,"Market St & 2nd St, north corner",',
+      "bench,IMP-2,37.7793,-122.4193,,",
+    ].join("\n")
+    expect(await importAssetsCsv(csv)).toEqual({ ok: true, created: 2, updated: 0 })
+    expect(await getAssetByCode("IMP-1")).toMatchObject({
+      type: "bin",
+      lat: 37.7893,
+      lon: -122.4012,
+      label: "Market St & 2nd St, north corner",
+      departmentId: null,
+    })
+
+    expect(await importAssetsCsv("code,type,lat,lon,status\nIMP-2,bench,37.7794,-122.4193,damaged")).toEqual({
+      ok: true,
+      created: 0,
+      updated: 1,
+    })
+    expect(await getAssetByCode("IMP-2")).toMatchObject({ lat: 37.7794, status: "damaged" })
+  })
+
+  it("imports nothing when any row is invalid, and lists every error by line", async () => {
+    const csv = [
+      "code,type,lat,lon,install_date",
+      "BAD-1,bin,37.7893,-122.4012,2026-03-01",
+      "BAD 2,bin,37.7893,-122.4012,",
+      "BAD-3,bin,-122.4012,37.7893,",
+      "BAD-4,bin,37.7893,-122.4012,03/01/2026",
+      "bad-1,bench,37.7893,-122.4012,",
+    ].join("\n")
+    const result = await importAssetsCsv(csv)
+    expect(result.ok).toBe(false)
+    expect(!result.ok && result.errors.map((error) => error.line)).toEqual([3, 4, 5, 6])
+    expect(!result.ok && result.errors[3].message).toBe("Code BAD-1 already appears on line 2")
+    expect(await getAssetByCode("BAD-1")).toBeNull()
+  })
+
+  it("requires the code, type, lat and lon columns", async () => {
+    expect(await importAssetsCsv("code,type,latitude,longitude\nX-1,bin,37.78,-122.41")).toEqual({
+      ok: false,
+      errors: [{ line: 1, message: "Missing columns: lat, lon" }],
+    })
+    expect(await importAssetsCsv("")).toEqual({ ok: false, errors: [{ line: 1, message: "The file is empty" }] })
+  })
+})
@@ -0,0 +1,179 @@
+import { z } from "zod"
+import { ASSET_STATUSES, ASSET_TYPES } from "@/lib/asset-types"
+import { normalizeAssetCode, upsertAsset, type NewAsset } from "@/lib/assets"
+import { getDepartment } from "@/lib/departments"
+import { isInSanFrancisco } from "@/lib/geo/geofence"
+
+// Bulk asset registration from CSV. The header row names the columns, in any order:
+//
+//   code,type,lat,lon,label,department_id,install_date,status
+//
+// Only code, type, lat and lon are required. Every row is validated before
+// anything is written, so a bad file can be fixed and imported again as a whole.
+// Rows whose code is already registered update that asset.
+
+export const MAX_IMPORT_ROWS = 10_000
+
+const REQUIRED_COLUMNS = ["code", "type", "lat", "lon"]
+
+export const assetFieldsSchema = z
+  .object({
+    // Codes end up in printed URLs (/q/<code>), so keep them URL-safe
+    code: z
+      .string()
+      .trim()
+      .min(1)
+      .max(64)
+      .regex(/^[A-Za-z0-9_-]+$/, "Codes may only contain letters, digits, - and _"),
+    type: z.enum(ASSET_TYPES),
+    lat: z.coerce.number().min(-90).max(90),
+    lon: z.coerce.number().min(-180).max(180),
+    label: z.string().trim().max(200).optional(),
+    department_id: z
+      .string()
+      .trim()
+      .optional()
+      .refine((id) => !id || getDepartment(id), "Unknown department"),
+    install_date: z
+      .string()
+      .trim()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+      .optional(),
+    status: z.enum(ASSET_STATUSES).optional(),
+  })
+  // Catches swapped lat/lon columns as much as genuinely wrong positions
+  .refine((fields) => isInSanFrancisco(fields.lat, fields.lon), "Coordinates are outside San Francisco")
+
+export type AssetFields = z.infer<typeof assetFieldsSchema>
+
+export interface ImportRowError {
+  line: number
+  message: string
+}
+
+export type AssetImportResult = { ok: true; created: number; updated: number } | { ok: false; errors: ImportRowError[] }
+
+export function toNewAsset(fields: AssetFields): NewAsset {
+  return {
+    code: fields.code,
+    type: fields.type,
+    lat: fields.lat,
+    lon: fields.lon,
+    label: fields.label || null,
+    departmentId: fields.department_id || null,
+    installDate: fields.install_date || null,
+    status: fields.status,
+  }
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes.
+// Returns each record with the line it starts on.
+export function parseCsv(text: string): { line: number; values: string[] }[] {
+  const records: { line: number; values: string[] }[] = []
+  let values: string[] = []
+  let field = ""
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  const endRecord = () => {
+    values.push(field)
+    // Skip blank lines
+    if (values.length > 1 || values[0] !== "") records.push({ line: recordLine, values })
+    values = []
+    field = ""
+  }
+
+  // Strip the byte order mark spreadsheet exports tend to add
+  const input = text.replace(/^\uFEFF/, "")
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === "\n") line++
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      values.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      endRecord()
+      line++
+      recordLine = line
+    } else {
+      field += char
+    }
+  }
+  if (field !== "" || values.length > 0) endRecord()
+  return records
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ")
+}
+
+export async function importAssetsCsv(text: string): Promise<AssetImportResult> {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) {
+    return { ok: false, errors: [{ line: 1, message: "The file is empty" }] }
+  }
+
+  const columns = header.values.map((column) => column.trim().toLowerCase())
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column))
+  if (missing.length > 0) {
+    return { ok: false, errors: [{ line: header.line, message: `Missing columns: ${missing.join(", ")}` }] }
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return {
+      ok: false,
+      errors: [{ line: header.line, message: `At most ${MAX_IMPORT_ROWS} rows can be imported at once` }],
+    }
+  }
+
+  const errors: ImportRowError[] = []
+  const assets: NewAsset[] = []
+  const seen = new Map<string, number>()
+  for (const row of rows) {
+    const record: Record<string, string> = {}
+    columns.forEach((column, index) => {
+      const value = row.values[index]?.trim()
+      // Empty cells count as missing, so optional columns can be left blank
+      if (value) record[column] = value
+    })
+
+    const parsed = assetFieldsSchema.safeParse(record)
+    if (!parsed.success) {
+      errors.push({ line: row.line, message: describeIssues(parsed.error) })
+      continue
+    }
+
+    const code = normalizeAssetCode(parsed.data.code)
+    const firstLine = seen.get(code)
+    if (firstLine !== undefined) {
+      errors.push({ line: row.line, message: `Code ${code} already appears on line ${firstLine}` })
+      continue
+    }
+    seen.set(code, row.line)
+    assets.push(toNewAsset(parsed.data))
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+
+  let created = 0
+  for (const asset of assets) {
+    if ((await upsertAsset(asset)).created) created++
+  }
+  return { ok: true, created, updated: assets.length - created }
+}
@@ -0,0 +1,11 @@
+// Asset kinds and lifecycle states. Kept apart from lib/assets.ts, which needs
+// the database, so client components such as the admin registry can use them.
+
+export const ASSET_TYPES = ["bin", "bench", "light_pole", "bus_shelter", "kiosk", "other"] as const
+
+export type AssetType = (typeof ASSET_TYPES)[number]
+
+// `retired` codes no longer resolve on /q/[code]; `damaged` ones still do
+export const ASSET_STATUSES = ["active", "damaged", "retired"] as const
+
+export type AssetStatus = (typeof ASSET_STATUSES)[number]
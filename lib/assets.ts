@@ -0,0 +1,192 @@
+import type { AssetStatus, AssetType } from "@/lib/asset-types"
+import { getDb, type SqlValue } from "@/lib/db"
+
+// Street furniture carrying a QR code. Each code resolves to one asset with a
+// fixed, surveyed position, so reports from /q/[code] need no GPS fix.
+
+export interface Asset {
+  id: string
+  // Printed on the QR code and in its URL, e.g. "BIN-00042"
+  code: string
+  type: AssetType
+  // Free text to help the reporter recognise the spot, e.g. "Market St & 2nd St, north corner"
+  label: string | null
+  lat: number
+  lon: number
+  // Department that receives reports from this asset unless the reporter picks another
+  departmentId: string | null
+  // Calendar date (YYYY-MM-DD) the sticker was put up
+  installDate: string | null
+  status: AssetStatus
+  createdAt: string
+  updatedAt: string
+}
+
+export type NewAsset = Pick<Asset, "code" | "type" | "lat" | "lon"> &
+  Partial<Pick<Asset, "label" | "departmentId" | "installDate" | "status">>
+
+export type AssetUpdate = Partial<Omit<NewAsset, "code">>
+
+// The subset sent to the browser on the QR landing page
+export type AssetSummary = Pick<Asset, "code" | "type" | "label" | "lat" | "lon" | "departmentId">
+
+interface AssetRow {
+  id: string
+  code: string
+  type: AssetType
+  label: string | null
+  lat: number
+  lon: number
+  department_id: string | null
+  install_date: string | null
+  status: AssetStatus
+  created_at: string
+  updated_at: string
+}
+
+function fromRow(row: AssetRow): Asset {
+  return {
+    id: row.id,
+    code: row.code,
+    type: row.type,
+    label: row.label,
+    lat: Number(row.lat),
+    lon: Number(row.lon),
+    departmentId: row.department_id,
+    installDate: row.install_date,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function toRow(asset: Asset): AssetRow {
+  return {
+    id: asset.id,
+    code: asset.code,
+    type: asset.type,
+    label: asset.label,
+    lat: asset.lat,
+    lon: asset.lon,
+    department_id: asset.departmentId,
+    install_date: asset.installDate,
+    status: asset.status,
+    created_at: asset.createdAt,
+    updated_at: asset.updatedAt,
+  }
+}
+
+// Codes are matched case-insensitively, since people retype them from stickers
+export function normalizeAssetCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+export function toAssetSummary(asset: Asset): AssetSummary {
+  return {
+    code: asset.code,
+    type: asset.type,
+    label: asset.label,
+    lat: asset.lat,
+    lon: asset.lon,
+    departmentId: asset.departmentId,
+  }
+}
+
+function buildAsset(input: NewAsset, now: string): Asset {
+  return {
+    id: crypto.randomUUID(),
+    code: normalizeAssetCode(input.code),
+    type: input.type,
+    label: input.label ?? null,
+    lat: input.lat,
+    lon: input.lon,
+    departmentId: input.departmentId ?? null,
+    installDate: input.installDate ?? null,
+    status: input.status ?? "active",
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+export async function createAsset(input: NewAsset): Promise<Asset> {
+  const db = await getDb()
+  const asset = buildAsset(input, new Date().toISOString())
+  const row = toRow(asset)
+  const columns = Object.keys(row)
+  await db.run(
+    `INSERT INTO assets (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+    Object.values(row) as SqlValue[],
+  )
+  return asset
+}
+
+// Inserts a new asset or overwrites the registered fields of the one with the
+// same code, keeping its ID so existing reports stay linked
+export async function upsertAsset(input: NewAsset): Promise<{ asset: Asset; created: boolean }> {
+  const existing = await getAssetByCode(input.code)
+  if (!existing) {
+    return { asset: await createAsset(input), created: true }
+  }
+  return { asset: (await updateAsset(existing.code, input))!, created: false }
+}
+
+export async function updateAsset(code: string, update: AssetUpdate): Promise<Asset | null> {
+  const existing = await getAssetByCode(code)
+  if (!existing) return null
+
+  // Undefined fields are left as they are; null clears a nullable field
+  const changes = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined))
+  const asset: Asset = { ...existing, ...changes, code: existing.code, updatedAt: new Date().toISOString() }
+  const { id, code: _code, created_at: _createdAt, ...row } = toRow(asset)
+  const columns = Object.keys(row)
+  const db = await getDb()
+  await db.run(`UPDATE assets SET ${columns.map((column) => `${column} = ?`).join(", ")} WHERE id = ?`, [
+    ...(Object.values(row) as SqlValue[]),
+    id,
+  ])
+  return asset
+}
+
+export async function listAssets(
+  filter: { query?: string; status?: AssetStatus; limit?: number; offset?: number } = {},
+): Promise<{ assets: Asset[]; total: number }> {
+  const conditions: string[] = []
+  const params: SqlValue[] = []
+  if (filter.query) {
+    // LOWER() keeps the label match case-insensitive on Postgres too
+    conditions.push("(code LIKE ? OR LOWER(label) LIKE ?)")
+    params.push(`%${normalizeAssetCode(filter.query)}%`, `%${filter.query.trim().toLowerCase()}%`)
+  }
+  if (filter.status) {
+    conditions.push("status = ?")
+    params.push(filter.status)
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""
+
+  const db = await getDb()
+  const rows = await db.all<AssetRow>(`SELECT * FROM assets ${where} ORDER BY code LIMIT ? OFFSET ?`, [
+    ...params,
+    filter.limit ?? 100,
+    filter.offset ?? 0,
+  ])
+  const count = await db.get<{ count: number | string }>(`SELECT COUNT(*) AS count FROM assets ${where}`, params)
+  return { assets: rows.map(fromRow), total: Number(count?.count ?? 0) }
+}
+
+export async function getAsset(id: string): Promise<Asset | null> {
+  const db = await getDb()
+  const row = await db.get<AssetRow>("SELECT * FROM assets WHERE id = ?", [id])
+  return row ? fromRow(row) : null
+}
+
+export async function getAssetByCode(code: string): Promise<Asset | null> {
+  const db = await getDb()
+  const row = await db.get<AssetRow>("SELECT * FROM assets WHERE code = ?", [normalizeAssetCode(code)])
+  return row ? fromRow(row) : null
+}
+
+// The asset a scanned code stands for, or null when it is unknown or retired
+export async function resolveAssetCode(code: string): Promise<Asset | null> {
+  const asset = await getAssetByCode(code)
+  return asset && asset.status !== "retired" ? asset : null
+}
@@ -0,0 +1,64 @@
+import { cookies } from "next/headers"
+import { redirect } from "next/navigation"
+import { NextResponse } from "next/server"
+import { hasPermission, isDepartmentScoped, type Permission } from "@/lib/auth/roles"
+import { SESSION_COOKIE, getSessionUserId } from "@/lib/auth/sessions"
+import { getStaffUser, type StaffUser } from "@/lib/auth/staff"
+
+// Access checks for admin pages and route handlers, based on the session cookie
+
+export async function currentStaff(): Promise<StaffUser | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value
+  if (!token) return null
+  const userId = await getSessionUserId(token)
+  if (!userId) return null
+  const user = await getStaffUser(userId)
+  // Disabling an account ends its sessions on their next request
+  return user && !user.disabled ? user : null
+}
+
+// For route handlers: the signed-in staff member if they hold `permission`,
+// otherwise the 401 or 403 response to return
+export async function requireStaff(
+  permission: Permission,
+): Promise<{ staff: StaffUser; response?: never } | { staff?: never; response: NextResponse }> {
+  const staff = await currentStaff()
+  if (!staff) {
+    return {
+      response: NextResponse.json(
+        { status: "error", code: "unauthorized", message: "Please sign in" },
+        { status: 401 },
+      ),
+    }
+  }
+  if (!hasPermission(staff.role, permission)) {
+    return {
+      response: NextResponse.json(
+        { status: "error", code: "forbidden", message: "Your role does not allow this" },
+        { status: 403 },
+      ),
+    }
+  }
+  return { staff }
+}
+
+// For admin pages: the signed-in staff member. Everyone else is sent to sign in,
+// and roles without `permission` go back to the report list, which every role can use.
+export async function requirePageStaff(permission: Permission): Promise<StaffUser> {
+  const staff = await currentStaff()
+  if (!staff) redirect("/login")
+  if (!hasPermission(staff.role, permission)) redirect("/admin")
+  return staff
+}
+
+// The only department whose reports `staff` may see, or undefined for all of them.
+// A department admin without a department gets "", which matches no report.
+export function reportScope(staff: StaffUser): string | undefined {
+  if (!isDepartmentScoped(staff.role)) return undefined
+  return staff.departmentId ?? ""
+}
+
+export function canSeeReport(staff: StaffUser, report: { departmentId: string | null }): boolean {
+  const scope = reportScope(staff)
+  return scope === undefined || report.departmentId === scope
+}
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { consumeLoginToken, createLoginToken } from "./magic-link"
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("login tokens", () => {
+  it("return the normalized address once, then never again", async () => {
+    const token = await createLoginToken("  Dispatcher@Example.org ")
+    expect(await consumeLoginToken(token)).toBe("dispatcher@example.org")
+    expect(await consumeLoginToken(token)).toBeNull()
+  })
+
+  it("are only accepted once when opened twice at the same time", async () => {
+    const token = await createLoginToken("twice@example.org")
+    const results = await Promise.all([consumeLoginToken(token), consumeLoginToken(token)])
+    expect(results.filter(Boolean)).toEqual(["twice@example.org"])
+  })
+
+  it("expire after 15 minutes", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(Date.parse("2026-03-02T12:00:00.000Z"))
+    const onTime = await createLoginToken("on-time@example.org")
+    const late = await createLoginToken("late@example.org")
+
+    vi.setSystemTime(Date.parse("2026-03-02T12:15:00.000Z"))
+    expect(await consumeLoginToken(onTime)).toBe("on-time@example.org")
+    vi.setSystemTime(Date.parse("2026-03-02T12:15:00.001Z"))
+    expect(await consumeLoginToken(late)).toBeNull()
+  })
+
+  it("reject unknown tokens", async () => {
+    await createLoginToken("someone@example.org")
+    expect(await consumeLoginToken("not-a-token")).toBeNull()
+    expect(await consumeLoginToken("")).toBeNull()
+  })
+})
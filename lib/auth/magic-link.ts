@@ -0,0 +1,37 @@
+import { hashToken, newToken } from "@/lib/auth/sessions"
+import { normalizeEmail } from "@/lib/auth/staff"
+import { getDb } from "@/lib/db"
+
+// One-time sign-in links sent by email. Like session tokens, only the hash is stored.
+
+const LOGIN_TOKEN_TTL_MS = 15 * 60_000
+
+export async function createLoginToken(email: string): Promise<string> {
+  const token = newToken()
+  const now = Date.now()
+  const db = await getDb()
+  await db.run("INSERT INTO login_tokens (token_hash, email, expires_at, created_at) VALUES (?, ?, ?, ?)", [
+    hashToken(token),
+    normalizeEmail(email),
+    new Date(now + LOGIN_TOKEN_TTL_MS).toISOString(),
+    new Date(now).toISOString(),
+  ])
+  await db.run("DELETE FROM login_tokens WHERE expires_at < ?", [new Date(now).toISOString()])
+  return token
+}
+
+// Marks the token used and returns its email, or null when it is unknown,
+// expired or already used. The conditional update makes each link single-use
+// even when it is opened twice at once.
+export async function consumeLoginToken(token: string): Promise<string | null> {
+  const now = new Date().toISOString()
+  const tokenHash = hashToken(token)
+  const db = await getDb()
+  const result = await db.run(
+    "UPDATE login_tokens SET used_at = ? WHERE token_hash = ? AND used_at IS NULL AND expires_at >= ?",
+    [now, tokenHash, now],
+  )
+  if (result.changes !== 1) return null
+  const row = await db.get<{ email: string }>("SELECT email FROM login_tokens WHERE token_hash = ?", [tokenHash])
+  return row?.email ?? null
+}
@@ -0,0 +1,121 @@
+import { generateKeyPairSync, sign, type KeyObject } from "crypto"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { finishOidcLogin, type OidcTransaction } from "./oidc"
+
+const ISSUER = "https://idp.example"
+const CLIENT_ID = "street-reports"
+const transaction: OidcTransaction = { state: "state-1", nonce: "nonce-1", verifier: "verifier-1" }
+
+const signingKey = generateKeyPairSync("rsa", { modulusLength: 2048 })
+const otherKey = generateKeyPairSync("rsa", { modulusLength: 2048 })
+
+function idToken(claims: Record<string, unknown>, options: { alg?: string; key?: KeyObject } = {}): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url")
+  const signed = `${encode({ alg: options.alg ?? "RS256", kid: "key-1" })}.${encode(claims)}`
+  const signature = sign("RSA-SHA256", Buffer.from(signed), options.key ?? signingKey.privateKey)
+  return `${signed}.${signature.toString("base64url")}`
+}
+
+function validClaims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    exp: Math.floor(Date.now() / 1000) + 300,
+    nonce: transaction.nonce,
+    email: "dispatcher@example.org",
+    email_verified: true,
+    ...overrides,
+  }
+}
+
+// Serves discovery, the signing keys and a token endpoint that returns `token`
+function stubIdentityProvider(token: string) {
+  const jwk = { ...signingKey.publicKey.export({ format: "jwk" }), kid: "key-1" }
+  const responses: Record<string, object> = {
+    [`${ISSUER}/.well-known/openid-configuration`]: {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      jwks_uri: `${ISSUER}/jwks`,
+    },
+    [`${ISSUER}/jwks`]: { keys: [jwk] },
+    [`${ISSUER}/token`]: { id_token: token },
+  }
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string | URL) => {
+      const body = responses[url.toString()]
+      return body ? Response.json(body) : new Response("Not found", { status: 404 })
+    }),
+  )
+}
+
+function finish(state = transaction.state) {
+  return finishOidcLogin({ code: "code-1", state, transaction, redirectUri: "https://report.example.org/cb" })
+}
+
+beforeEach(() => {
+  vi.stubEnv("OIDC_ISSUER", ISSUER)
+  vi.stubEnv("OIDC_CLIENT_ID", CLIENT_ID)
+  vi.stubEnv("OIDC_CLIENT_SECRET", "")
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+})
+
+describe("finishOidcLogin", () => {
+  it("returns the email from a valid ID token", async () => {
+    stubIdentityProvider(idToken(validClaims()))
+    expect(await finish()).toEqual({ email: "dispatcher@example.org" })
+  })
+
+  it("accepts an audience list that includes the client", async () => {
+    stubIdentityProvider(idToken(validClaims({ aud: ["other-app", CLIENT_ID] })))
+    expect(await finish()).toEqual({ email: "dispatcher@example.org" })
+  })
+
+  it("rejects a callback whose state does not match the login", async () => {
+    stubIdentityProvider(idToken(validClaims()))
+    await expect(finish("state-2")).rejects.toThrow("State mismatch")
+  })
+
+  it("rejects tokens signed with a key the issuer did not publish", async () => {
+    stubIdentityProvider(idToken(validClaims(), { key: otherKey.privateKey }))
+    await expect(finish()).rejects.toThrow("Invalid ID token signature")
+  })
+
+  it("rejects tampered claims", async () => {
+    const [header, , signature] = idToken(validClaims()).split(".")
+    const forged = Buffer.from(JSON.stringify(validClaims({ email: "admin@example.org" }))).toString("base64url")
+    stubIdentityProvider(`${header}.${forged}.${signature}`)
+    await expect(finish()).rejects.toThrow("Invalid ID token signature")
+  })
+
+  it("rejects algorithms other than RS256", async () => {
+    stubIdentityProvider(idToken(validClaims(), { alg: "none" }))
+    await expect(finish()).rejects.toThrow("Unsupported ID token algorithm none")
+  })
+
+  it("rejects tokens from another issuer, for another client or for another login", async () => {
+    stubIdentityProvider(idToken(validClaims({ iss: "https://evil.example" })))
+    await expect(finish()).rejects.toThrow("another issuer")
+    stubIdentityProvider(idToken(validClaims({ aud: "other-app" })))
+    await expect(finish()).rejects.toThrow("another client")
+    stubIdentityProvider(idToken(validClaims({ nonce: "nonce-2" })))
+    await expect(finish()).rejects.toThrow("nonce mismatch")
+  })
+
+  it("rejects expired tokens", async () => {
+    stubIdentityProvider(idToken(validClaims({ exp: Math.floor(Date.now() / 1000) - 1 })))
+    await expect(finish()).rejects.toThrow("ID token expired")
+  })
+
+  it("requires a confirmed email address", async () => {
+    stubIdentityProvider(idToken(validClaims({ email_verified: false })))
+    await expect(finish()).rejects.toThrow("did not confirm an email address")
+    stubIdentityProvider(idToken(validClaims({ email: undefined })))
+    await expect(finish()).rejects.toThrow("did not confirm an email address")
+  })
+})
@@ -0,0 +1,148 @@
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey } from "crypto"
+
+// Optional single sign-on against any OpenID Connect issuer (authorization code
+// flow with PKCE). Enabled by OIDC_ISSUER and OIDC_CLIENT_ID; scripts/mock-oidc.mjs
+// is a local issuer for development. The identity provider only vouches for the
+// email address: the account and its role still come from staff_users.
+
+export const OIDC_COOKIE = "sf_oidc_login"
+
+export interface OidcTransaction {
+  state: string
+  nonce: string
+  verifier: string
+}
+
+interface OidcMetadata {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+}
+
+export class OidcError extends Error {}
+
+export function isOidcEnabled(): boolean {
+  return !!process.env.OIDC_ISSUER && !!process.env.OIDC_CLIENT_ID
+}
+
+// Shown on the login button, e.g. "City SSO"
+export function oidcProviderName(): string {
+  return process.env.OIDC_PROVIDER_NAME || "Single sign-on"
+}
+
+let metadataPromise: Promise<OidcMetadata> | null = null
+
+function discover(): Promise<OidcMetadata> {
+  if (!metadataPromise) {
+    const issuer = (process.env.OIDC_ISSUER || "").replace(/\/+$/, "")
+    metadataPromise = fetch(`${issuer}/.well-known/openid-configuration`, { signal: AbortSignal.timeout(5000) })
+      .then((response) => {
+        if (!response.ok) throw new OidcError(`Discovery failed: ${response.status}`)
+        return response.json() as Promise<OidcMetadata>
+      })
+      .catch((error) => {
+        // Allow the next login to retry instead of caching the failure
+        metadataPromise = null
+        throw error
+      })
+  }
+  return metadataPromise
+}
+
+const base64url = (bytes: Buffer) => bytes.toString("base64url")
+
+export async function startOidcLogin(redirectUri: string): Promise<{ url: string; transaction: OidcTransaction }> {
+  const metadata = await discover()
+  const transaction: OidcTransaction = {
+    state: base64url(randomBytes(16)),
+    nonce: base64url(randomBytes(16)),
+    verifier: base64url(randomBytes(32)),
+  }
+  const url = new URL(metadata.authorization_endpoint)
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: process.env.OIDC_CLIENT_ID || "",
+    redirect_uri: redirectUri,
+    scope: "openid email profile",
+    state: transaction.state,
+    nonce: transaction.nonce,
+    code_challenge: base64url(createHash("sha256").update(transaction.verifier).digest()),
+    code_challenge_method: "S256",
+  }).toString()
+  return { url: url.toString(), transaction }
+}
+
+function decodeJson(part: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(part, "base64url").toString("utf8"))
+}
+
+// Checks an RS256 ID token against the issuer's published keys and returns its claims
+async function verifyIdToken(idToken: string, metadata: OidcMetadata, nonce: string): Promise<Record<string, unknown>> {
+  const [headerPart, payloadPart, signaturePart] = idToken.split(".")
+  if (!headerPart || !payloadPart || !signaturePart) throw new OidcError("Malformed ID token")
+  const header = decodeJson(headerPart)
+  if (header.alg !== "RS256") throw new OidcError(`Unsupported ID token algorithm ${header.alg}`)
+
+  const response = await fetch(metadata.jwks_uri, { signal: AbortSignal.timeout(5000) })
+  if (!response.ok) throw new OidcError(`Could not fetch signing keys: ${response.status}`)
+  const { keys } = (await response.json()) as { keys: (JsonWebKey & { kid?: string })[] }
+  const jwk = keys.find((key) => key.kty === "RSA" && (!header.kid || key.kid === header.kid))
+  if (!jwk) throw new OidcError("No matching signing key")
+
+  const valid = verify(
+    "RSA-SHA256",
+    Buffer.from(`${headerPart}.${payloadPart}`),
+    createPublicKey({ key: jwk, format: "jwk" }),
+    Buffer.from(signaturePart, "base64url"),
+  )
+  if (!valid) throw new OidcError("Invalid ID token signature")
+
+  const claims = decodeJson(payloadPart)
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (claims.iss !== metadata.issuer) throw new OidcError("ID token from another issuer")
+  if (!audience.includes(process.env.OIDC_CLIENT_ID)) throw new OidcError("ID token for another client")
+  if (typeof claims.exp !== "number" || claims.exp * 1000 < Date.now()) throw new OidcError("ID token expired")
+  if (claims.nonce !== nonce) throw new OidcError("ID token nonce mismatch")
+  return claims
+}
+
+// Exchanges the authorization code and returns the verified email address
+export async function finishOidcLogin(params: {
+  code: string
+  state: string
+  transaction: OidcTransaction
+  redirectUri: string
+}): Promise<{ email: string }> {
+  if (params.state !== params.transaction.state) throw new OidcError("State mismatch")
+  const metadata = await discover()
+
+  const form = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    client_id: process.env.OIDC_CLIENT_ID || "",
+    code_verifier: params.transaction.verifier,
+  })
+  const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded" }
+  if (process.env.OIDC_CLIENT_SECRET) {
+    const clientId = encodeURIComponent(process.env.OIDC_CLIENT_ID || "")
+    const credentials = `${clientId}:${encodeURIComponent(process.env.OIDC_CLIENT_SECRET)}`
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`
+  }
+  const response = await fetch(metadata.token_endpoint, {
+    method: "POST",
+    headers,
+    body: form,
+    signal: AbortSignal.timeout(5000),
+  })
+  if (!response.ok) throw new OidcError(`Token exchange failed: ${response.status}`)
+  const { id_token: idToken } = (await response.json()) as { id_token?: string }
+  if (!idToken) throw new OidcError("No ID token in the token response")
+
+  const claims = await verifyIdToken(idToken, metadata, params.transaction.nonce)
+  if (typeof claims.email !== "string" || claims.email_verified === false) {
+    throw new OidcError("The identity provider did not confirm an email address")
+  }
+  return { email: claims.email }
+}
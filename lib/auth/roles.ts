@@ -0,0 +1,50 @@
+// Staff roles and what each may do. Kept apart from the database-backed auth
+// modules so client components can hide what the signed-in role cannot use.
+
+export const STAFF_ROLES = ["viewer", "dispatcher", "department_admin", "super_admin"] as const
+
+export type StaffRole = (typeof STAFF_ROLES)[number]
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  viewer: "Viewer",
+  dispatcher: "Dispatcher",
+  department_admin: "Department admin",
+  super_admin: "Super admin",
+}
+
+export type Permission =
+  // List and open reports. Department admins only see their own department's.
+  | "reports:read"
+  // Acknowledge and resolve reports
+  | "reports:update"
+  // See the QR asset registry, posters and scan analytics
+  | "assets:read"
+  // Register, import and change assets
+  | "assets:write"
+  // Add staff and change their roles
+  | "staff:manage"
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  viewer: ["reports:read", "assets:read"],
+  dispatcher: ["reports:read", "reports:update", "assets:read"],
+  department_admin: ["reports:read", "reports:update", "assets:read"],
+  super_admin: ["reports:read", "reports:update", "assets:read", "assets:write", "staff:manage"],
+}
+
+export function hasPermission(role: StaffRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+// Roles whose report access is limited to one department
+export function isDepartmentScoped(role: StaffRole): boolean {
+  return role === "department_admin"
+}
+
+// The signed-in staff member as the browser sees it
+export interface StaffSummary {
+  id: string
+  email: string
+  name: string | null
+  role: StaffRole
+  departmentId: string | null
+}
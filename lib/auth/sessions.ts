@@ -0,0 +1,62 @@
+import { createHash, randomBytes } from "crypto"
+import { getDb } from "@/lib/db"
+
+// Staff sessions. The browser holds a random token in an HttpOnly cookie; the
+// database keeps only its SHA-256, so a leaked table cannot be replayed.
+
+export const SESSION_COOKIE = "sf_staff_session"
+
+const SESSION_TTL_MS = 12 * 60 * 60_000
+
+export type LoginMethod = "email" | "oidc"
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+export function newToken(): string {
+  return randomBytes(32).toString("base64url")
+}
+
+export function sessionCookieOptions(expires: Date) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    // Lax keeps the cookie off cross-site POSTs, which covers CSRF for the admin API
+    sameSite: "lax" as const,
+    path: "/",
+    expires,
+  }
+}
+
+export async function createSession(userId: string, method: LoginMethod): Promise<{ token: string; expires: Date }> {
+  const token = newToken()
+  const now = Date.now()
+  const expires = new Date(now + SESSION_TTL_MS)
+  const db = await getDb()
+  await db.run("INSERT INTO staff_sessions (id, user_id, method, created_at, expires_at) VALUES (?, ?, ?, ?, ?)", [
+    hashToken(token),
+    userId,
+    method,
+    new Date(now).toISOString(),
+    expires.toISOString(),
+  ])
+  // Expired sessions are only ever read to be rejected
+  await db.run("DELETE FROM staff_sessions WHERE expires_at < ?", [new Date(now).toISOString()])
+  return { token, expires }
+}
+
+// The user ID a live session token belongs to
+export async function getSessionUserId(token: string): Promise<string | null> {
+  const db = await getDb()
+  const row = await db.get<{ user_id: string }>("SELECT user_id FROM staff_sessions WHERE id = ? AND expires_at >= ?", [
+    hashToken(token),
+    new Date().toISOString(),
+  ])
+  return row?.user_id ?? null
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  const db = await getDb()
+  await db.run("DELETE FROM staff_sessions WHERE id = ?", [hashToken(token)])
+}
@@ -0,0 +1,152 @@
+import type { StaffRole, StaffSummary } from "@/lib/auth/roles"
+import { getDb, type SqlValue } from "@/lib/db"
+
+// City staff who may sign in to /admin. Accounts are created by a super admin
+// (or bootstrapped from SUPER_ADMIN_EMAILS); signing in never creates one, so
+// an email address or identity provider account alone grants nothing.
+
+export interface StaffUser {
+  id: string
+  // Stored lower case; both sign-in methods match on it
+  email: string
+  name: string | null
+  role: StaffRole
+  // Required for department admins, whose report access it limits
+  departmentId: string | null
+  disabled: boolean
+  lastLoginAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type NewStaffUser = Pick<StaffUser, "email" | "role"> & Partial<Pick<StaffUser, "name" | "departmentId">>
+
+export type StaffUserUpdate = Partial<Pick<StaffUser, "name" | "role" | "departmentId" | "disabled">>
+
+interface StaffUserRow {
+  id: string
+  email: string
+  name: string | null
+  role: StaffRole
+  department_id: string | null
+  disabled: number
+  last_login_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+function fromRow(row: StaffUserRow): StaffUser {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    departmentId: row.department_id,
+    disabled: Number(row.disabled) === 1,
+    lastLoginAt: row.last_login_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function toRow(user: StaffUser): StaffUserRow {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    department_id: user.departmentId,
+    disabled: user.disabled ? 1 : 0,
+    last_login_at: user.lastLoginAt,
+    created_at: user.createdAt,
+    updated_at: user.updatedAt,
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export function toStaffSummary(user: StaffUser): StaffSummary {
+  return { id: user.id, email: user.email, name: user.name, role: user.role, departmentId: user.departmentId }
+}
+
+export async function createStaffUser(input: NewStaffUser): Promise<StaffUser> {
+  const now = new Date().toISOString()
+  const user: StaffUser = {
+    id: crypto.randomUUID(),
+    email: normalizeEmail(input.email),
+    name: input.name ?? null,
+    role: input.role,
+    departmentId: input.departmentId ?? null,
+    disabled: false,
+    lastLoginAt: null,
+    createdAt: now,
+    updatedAt: now,
+  }
+  const row = toRow(user)
+  const columns = Object.keys(row)
+  const db = await getDb()
+  await db.run(
+    `INSERT INTO staff_users (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+    Object.values(row) as SqlValue[],
+  )
+  return user
+}
+
+export async function getStaffUser(id: string): Promise<StaffUser | null> {
+  const db = await getDb()
+  const row = await db.get<StaffUserRow>("SELECT * FROM staff_users WHERE id = ?", [id])
+  return row ? fromRow(row) : null
+}
+
+export async function getStaffUserByEmail(email: string): Promise<StaffUser | null> {
+  const db = await getDb()
+  const row = await db.get<StaffUserRow>("SELECT * FROM staff_users WHERE email = ?", [normalizeEmail(email)])
+  return row ? fromRow(row) : null
+}
+
+export async function listStaffUsers(): Promise<StaffUser[]> {
+  const db = await getDb()
+  const rows = await db.all<StaffUserRow>("SELECT * FROM staff_users ORDER BY email")
+  return rows.map(fromRow)
+}
+
+export async function updateStaffUser(id: string, update: StaffUserUpdate): Promise<StaffUser | null> {
+  const existing = await getStaffUser(id)
+  if (!existing) return null
+
+  // Undefined fields are left as they are; null clears a nullable field
+  const changes = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined))
+  const user: StaffUser = { ...existing, ...changes, updatedAt: new Date().toISOString() }
+  const { id: _id, email: _email, created_at: _createdAt, ...row } = toRow(user)
+  const columns = Object.keys(row)
+  const db = await getDb()
+  await db.run(`UPDATE staff_users SET ${columns.map((column) => `${column} = ?`).join(", ")} WHERE id = ?`, [
+    ...(Object.values(row) as SqlValue[]),
+    id,
+  ])
+  return user
+}
+
+// Addresses in SUPER_ADMIN_EMAILS (comma separated) get a super admin account
+// on their first sign-in, so a fresh deployment has someone to add the rest
+function isBootstrapAdmin(email: string): boolean {
+  return (process.env.SUPER_ADMIN_EMAILS || "")
+    .split(",")
+    .map(normalizeEmail)
+    .filter(Boolean)
+    .includes(normalizeEmail(email))
+}
+
+// The account a sign-in for `email` belongs to, or null when there is none or it is disabled
+export async function findStaffForLogin(email: string): Promise<StaffUser | null> {
+  const user = await getStaffUserByEmail(email)
+  if (user) return user.disabled ? null : user
+  return isBootstrapAdmin(email) ? createStaffUser({ email, role: "super_admin" }) : null
+}
+
+export async function recordStaffLogin(id: string): Promise<void> {
+  const db = await getDb()
+  await db.run("UPDATE staff_users SET last_login_at = ? WHERE id = ?", [new Date().toISOString(), id])
+}
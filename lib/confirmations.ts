@@ -0,0 +1,75 @@
+import { getDb } from "@/lib/db"
+
+// "Me too" confirmations. Instead of filing another report about a known issue,
+// a citizen can confirm from the status page or the QR landing that it is still
+// there, optionally with a fresh photo. Each confirmation is kept, and the report
+// carries a running count, which puts it higher in the department's priority order.
+
+export interface Confirmation {
+  id: string
+  reportId: string
+  photoRef: string | null
+  createdAt: string
+}
+
+interface ConfirmationRow {
+  id: string
+  report_id: string
+  photo_ref: string | null
+  created_at: string
+}
+
+function fromRow(row: ConfirmationRow): Confirmation {
+  return { id: row.id, reportId: row.report_id, photoRef: row.photo_ref, createdAt: row.created_at }
+}
+
+export function newConfirmationId(): string {
+  return crypto.randomUUID()
+}
+
+// Stores the confirmation and returns the report's new count
+export async function addConfirmation(input: {
+  id?: string
+  reportId: string
+  photoRef: string | null
+}): Promise<{ confirmation: Confirmation; confirmationCount: number }> {
+  const confirmation: Confirmation = {
+    id: input.id ?? newConfirmationId(),
+    reportId: input.reportId,
+    photoRef: input.photoRef,
+    createdAt: new Date().toISOString(),
+  }
+  const db = await getDb()
+  await db.run("INSERT INTO report_confirmations (id, report_id, photo_ref, created_at) VALUES (?, ?, ?, ?)", [
+    confirmation.id,
+    confirmation.reportId,
+    confirmation.photoRef,
+    confirmation.createdAt,
+  ])
+  // Incremented in place so concurrent confirmations are all counted
+  await db.run(
+    "UPDATE reports SET confirmation_count = confirmation_count + 1, last_confirmed_at = ? WHERE id = ?",
+    [confirmation.createdAt, confirmation.reportId],
+  )
+  const row = await db.get<{ confirmation_count: number | string }>(
+    "SELECT confirmation_count FROM reports WHERE id = ?",
+    [confirmation.reportId],
+  )
+  return { confirmation, confirmationCount: Number(row?.confirmation_count ?? 0) }
+}
+
+// Newest first
+export async function listConfirmations(reportId: string): Promise<Confirmation[]> {
+  const db = await getDb()
+  const rows = await db.all<ConfirmationRow>(
+    "SELECT * FROM report_confirmations WHERE report_id = ? ORDER BY created_at DESC",
+    [reportId],
+  )
+  return rows.map(fromRow)
+}
+
+export async function getConfirmation(id: string): Promise<Confirmation | null> {
+  const db = await getDb()
+  const row = await db.get<ConfirmationRow>("SELECT * FROM report_confirmations WHERE id = ?", [id])
+  return row ? fromRow(row) : null
+}
@@ -0,0 +1,11 @@
+import type { NextRequest } from "next/server"
+
+// Access check for scheduled jobs (/api/retry, /api/hotspots/refresh)
+export function isCronAuthorized(request: NextRequest): boolean {
+  // Vercel Cron sends `Authorization: Bearer $CRON_SECRET` when the variable is set
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return process.env.NODE_ENV !== "production"
+  }
+  return request.headers.get("authorization") === `Bearer ${secret}`
+}
@@ -0,0 +1,64 @@
+import { migrations } from "./migrations"
+
+export type SqlValue = string | number | null
+
+// Minimal driver-agnostic database handle. Statements use `?` placeholders and
+// portable SQL so the same queries run against SQLite and Postgres.
+export interface Db {
+  dialect: "sqlite" | "postgres"
+  all<T>(sql: string, params?: SqlValue[]): Promise<T[]>
+  get<T>(sql: string, params?: SqlValue[]): Promise<T | undefined>
+  run(sql: string, params?: SqlValue[]): Promise<{ changes: number }>
+  exec(sql: string): Promise<void>
+  // Runs `fn` with a handle whose statements commit together, or not at all if
+  // it throws. Nested calls join the outer transaction.
+  transaction<T>(fn: (tx: Db) => Promise<T>): Promise<T>
+}
+
+let dbPromise: Promise<Db> | null = null
+
+async function connect(): Promise<Db> {
+  const url = process.env.DATABASE_URL
+  let db: Db
+  if (url && /^postgres(ql)?:\/\//.test(url)) {
+    const { createPostgresDb } = await import("./postgres")
+    db = await createPostgresDb(url)
+  } else {
+    const { createSqliteDb } = await import("./sqlite")
+    db = await createSqliteDb(process.env.SQLITE_PATH || "./data/reports.db")
+  }
+  await migrate(db)
+  return db
+}
+
+export async function migrate(db: Db) {
+  await db.exec("CREATE TABLE IF NOT EXISTS schema_migrations (id TEXT PRIMARY KEY, applied_at TEXT NOT NULL)")
+  const applied = await db.all<{ id: string }>("SELECT id FROM schema_migrations")
+  const done = new Set(applied.map((row) => row.id))
+
+  for (const migration of migrations) {
+    if (done.has(migration.id)) continue
+    // Both databases have transactional DDL, so a failed statement leaves the
+    // migration unapplied and unrecorded rather than half done
+    await db.transaction(async (tx) => {
+      for (const statement of migration.statements) {
+        await tx.exec(statement)
+      }
+      await tx.run("INSERT INTO schema_migrations (id, applied_at) VALUES (?, ?)", [
+        migration.id,
+        new Date().toISOString(),
+      ])
+    })
+  }
+}
+
+export function getDb(): Promise<Db> {
+  if (!dbPromise) {
+    dbPromise = connect().catch((error) => {
+      // Allow the next request to retry instead of caching a broken connection
+      dbPromise = null
+      throw error
+    })
+  }
+  return dbPromise
+}
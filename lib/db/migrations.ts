@@ -0,0 +1,235 @@
+// Schema migrations, applied in order and recorded in `schema_migrations`.
+// Keep statements portable between SQLite and Postgres: timestamps are ISO-8601
+// TEXT, flags are INTEGER 0/1, and coordinates are DOUBLE PRECISION.
+export const migrations: { id: string; statements: string[] }[] = [
+  {
+    id: "001_reports",
+    statements: [
+      `CREATE TABLE reports (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        correlation_id TEXT NOT NULL,
+        client_nonce TEXT NOT NULL,
+        lat DOUBLE PRECISION NOT NULL,
+        lon DOUBLE PRECISION NOT NULL,
+        accuracy DOUBLE PRECISION,
+        observed_at TEXT NOT NULL,
+        message TEXT NOT NULL,
+        recipient_email TEXT NOT NULL,
+        photo_ref TEXT,
+        delivery_reference TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      "CREATE INDEX idx_reports_created_at ON reports (created_at)",
+      "CREATE INDEX idx_reports_status ON reports (status)",
+    ],
+  },
+  {
+    id: "002_delivery_outbox",
+    statements: [
+      `CREATE TABLE delivery_outbox (
+        report_id TEXT PRIMARY KEY REFERENCES reports (id),
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        next_attempt_at TEXT NOT NULL,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      "CREATE INDEX idx_delivery_outbox_due ON delivery_outbox (status, next_attempt_at)",
+    ],
+  },
+  {
+    id: "003_report_department",
+    statements: ["ALTER TABLE reports ADD COLUMN department_id TEXT"],
+  },
+  {
+    id: "004_rate_limit_hits",
+    statements: [
+      "CREATE TABLE rate_limit_hits (key TEXT NOT NULL, hit_at TEXT NOT NULL)",
+      "CREATE INDEX idx_rate_limit_hits_key ON rate_limit_hits (key, hit_at)",
+    ],
+  },
+  {
+    id: "005_report_enrichment",
+    statements: [
+      "ALTER TABLE reports ADD COLUMN supervisor_district TEXT",
+      "ALTER TABLE reports ADD COLUMN neighborhood TEXT",
+      "ALTER TABLE reports ADD COLUMN police_district TEXT",
+    ],
+  },
+  {
+    id: "006_report_address",
+    statements: [
+      "ALTER TABLE reports ADD COLUMN nearest_address TEXT",
+      "ALTER TABLE reports ADD COLUMN cross_street TEXT",
+    ],
+  },
+  {
+    id: "007_report_location_source",
+    statements: ["ALTER TABLE reports ADD COLUMN location_source TEXT NOT NULL DEFAULT 'gps'"],
+  },
+  {
+    id: "008_report_photos",
+    statements: [
+      `CREATE TABLE report_photos (
+        report_id TEXT NOT NULL REFERENCES reports (id),
+        position INTEGER NOT NULL,
+        photo_ref TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (report_id, position)
+      )`,
+      `INSERT INTO report_photos (report_id, position, photo_ref, created_at)
+        SELECT id, 0, photo_ref, created_at FROM reports WHERE photo_ref IS NOT NULL`,
+      "ALTER TABLE reports DROP COLUMN photo_ref",
+    ],
+  },
+  {
+    id: "009_report_number",
+    statements: [
+      "ALTER TABLE reports ADD COLUMN report_number TEXT",
+      "CREATE UNIQUE INDEX idx_reports_report_number ON reports (report_number)",
+    ],
+  },
+  {
+    id: "010_assets",
+    statements: [
+      `CREATE TABLE assets (
+        id TEXT PRIMARY KEY,
+        code TEXT NOT NULL,
+        type TEXT NOT NULL,
+        label TEXT,
+        lat DOUBLE PRECISION NOT NULL,
+        lon DOUBLE PRECISION NOT NULL,
+        department_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      "CREATE UNIQUE INDEX idx_assets_code ON assets (code)",
+      "ALTER TABLE reports ADD COLUMN asset_id TEXT REFERENCES assets (id)",
+      "CREATE INDEX idx_reports_asset_id ON reports (asset_id)",
+    ],
+  },
+  {
+    id: "011_asset_registry",
+    statements: [
+      "ALTER TABLE assets ADD COLUMN install_date TEXT",
+      "ALTER TABLE assets ADD COLUMN status TEXT NOT NULL DEFAULT 'active'",
+      "CREATE INDEX idx_assets_status ON assets (status)",
+    ],
+  },
+  {
+    id: "012_scans",
+    statements: [
+      `CREATE TABLE scans (
+        id TEXT PRIMARY KEY,
+        code TEXT NOT NULL,
+        asset_id TEXT REFERENCES assets (id),
+        user_agent_class TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+      "CREATE INDEX idx_scans_created_at ON scans (created_at)",
+      "CREATE INDEX idx_scans_code ON scans (code)",
+      `CREATE TABLE scan_steps (
+        scan_id TEXT NOT NULL REFERENCES scans (id),
+        step TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (scan_id, step)
+      )`,
+    ],
+  },
+  {
+    id: "013_staff",
+    statements: [
+      `CREATE TABLE staff_users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL,
+        name TEXT,
+        role TEXT NOT NULL,
+        department_id TEXT,
+        disabled INTEGER NOT NULL DEFAULT 0,
+        last_login_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      "CREATE UNIQUE INDEX idx_staff_users_email ON staff_users (email)",
+      `CREATE TABLE staff_sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES staff_users (id),
+        method TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      )`,
+      "CREATE INDEX idx_staff_sessions_user_id ON staff_sessions (user_id)",
+      `CREATE TABLE login_tokens (
+        token_hash TEXT PRIMARY KEY,
+        email TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        used_at TEXT,
+        created_at TEXT NOT NULL
+      )`,
+    ],
+  },
+  {
+    id: "014_hotspots",
+    statements: [
+      `CREATE TABLE hotspots (
+        id TEXT PRIMARY KEY,
+        lat DOUBLE PRECISION NOT NULL,
+        lon DOUBLE PRECISION NOT NULL,
+        radius_m DOUBLE PRECISION NOT NULL,
+        report_count INTEGER NOT NULL,
+        active_days INTEGER NOT NULL,
+        first_report_at TEXT NOT NULL,
+        last_report_at TEXT NOT NULL,
+        score DOUBLE PRECISION NOT NULL,
+        neighborhood TEXT,
+        department_id TEXT,
+        computed_at TEXT NOT NULL
+      )`,
+      "CREATE INDEX idx_hotspots_computed_at ON hotspots (computed_at)",
+      `CREATE TABLE hotspot_reports (
+        hotspot_id TEXT NOT NULL REFERENCES hotspots (id),
+        report_id TEXT NOT NULL REFERENCES reports (id),
+        PRIMARY KEY (hotspot_id, report_id)
+      )`,
+      `CREATE TABLE hotspot_runs (
+        computed_at TEXT PRIMARY KEY,
+        report_count INTEGER NOT NULL,
+        hotspot_count INTEGER NOT NULL
+      )`,
+    ],
+  },
+  {
+    id: "015_report_duplicates",
+    statements: [
+      "ALTER TABLE reports ADD COLUMN duplicate_of TEXT REFERENCES reports (id)",
+      "CREATE INDEX idx_reports_duplicate_of ON reports (duplicate_of)",
+    ],
+  },
+  {
+    id: "016_report_confirmations",
+    statements: [
+      `CREATE TABLE report_confirmations (
+        id TEXT PRIMARY KEY,
+        report_id TEXT NOT NULL REFERENCES reports (id),
+        photo_ref TEXT,
+        created_at TEXT NOT NULL
+      )`,
+      "CREATE INDEX idx_report_confirmations_report_id ON report_confirmations (report_id)",
+      "ALTER TABLE reports ADD COLUMN confirmation_count INTEGER NOT NULL DEFAULT 0",
+      "ALTER TABLE reports ADD COLUMN last_confirmed_at TEXT",
+    ],
+  },
+  {
+    // Lets a request take back its own hits when another rate limit rejects it
+    id: "017_rate_limit_hit_ids",
+    statements: ["ALTER TABLE rate_limit_hits ADD COLUMN id TEXT"],
+  },
+  {
+    // Photos kept in the database by PHOTO_STORE=database, base64-encoded
+    id: "018_photo_blobs",
+    statements: ["CREATE TABLE photo_blobs (ref TEXT PRIMARY KEY, data TEXT NOT NULL, created_at TEXT NOT NULL)"],
+  },
+]
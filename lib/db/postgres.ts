@@ -0,0 +1,58 @@
+import type { QueryResult } from "pg"
+import type { Db } from "./index"
+
+// Rewrite `?` placeholders to Postgres' positional `$n` form.
+// Queries in this codebase never contain a literal `?`.
+function toPositional(sql: string): string {
+  let index = 0
+  return sql.replace(/\?/g, () => `$${++index}`)
+}
+
+// The pool, or one client checked out of it for a transaction
+interface Queryable {
+  query(text: string, values?: unknown[]): Promise<QueryResult>
+}
+
+function handle(queryable: Queryable, transaction: Db["transaction"]): Db {
+  return {
+    dialect: "postgres",
+    async all(sql, params = []) {
+      const result = await queryable.query(toPositional(sql), params)
+      return result.rows
+    },
+    async get(sql, params = []) {
+      const result = await queryable.query(toPositional(sql), params)
+      return result.rows[0]
+    },
+    async run(sql, params = []) {
+      const result = await queryable.query(toPositional(sql), params)
+      return { changes: result.rowCount ?? 0 }
+    },
+    async exec(sql) {
+      await queryable.query(sql)
+    },
+    transaction,
+  }
+}
+
+export async function createPostgresDb(connectionString: string): Promise<Db> {
+  const { Pool } = await import("pg")
+  const pool = new Pool({ connectionString, max: 5 })
+
+  return handle(pool, async (fn) => {
+    const client = await pool.connect()
+    try {
+      await client.query("BEGIN")
+      // Nested calls reuse this client's transaction
+      const tx: Db = handle(client, (nested) => nested(tx))
+      const result = await fn(tx)
+      await client.query("COMMIT")
+      return result
+    } catch (error) {
+      await client.query("ROLLBACK").catch(() => {})
+      throw error
+    } finally {
+      client.release()
+    }
+  })
+}
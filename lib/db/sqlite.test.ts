@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { migrate } from "./index"
+import { createSqliteDb } from "./sqlite"
+
+describe("sqlite transactions", () => {
+  it("commits every statement together", async () => {
+    const db = await createSqliteDb(":memory:")
+    await db.exec("CREATE TABLE items (id INTEGER PRIMARY KEY)")
+    await db.transaction(async (tx) => {
+      await tx.run("INSERT INTO items (id) VALUES (?)", [1])
+      await tx.run("INSERT INTO items (id) VALUES (?)", [2])
+    })
+    expect(await db.all("SELECT id FROM items ORDER BY id")).toEqual([{ id: 1 }, { id: 2 }])
+  })
+
+  it("rolls back everything when the callback throws", async () => {
+    const db = await createSqliteDb(":memory:")
+    await db.exec("CREATE TABLE items (id INTEGER PRIMARY KEY)")
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.run("INSERT INTO items (id) VALUES (?)", [1])
+        await tx.run("INSERT INTO items (id) VALUES (?)", [1])
+      }),
+    ).rejects.toThrow()
+    expect(await db.all("SELECT id FROM items")).toEqual([])
+  })
+
+  it("rolls back schema changes", async () => {
+    const db = await createSqliteDb(":memory:")
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.exec("CREATE TABLE items (id INTEGER PRIMARY KEY)")
+        await tx.exec("ALTER TABLE missing ADD COLUMN name TEXT")
+      }),
+    ).rejects.toThrow()
+    expect(await db.get("SELECT name FROM sqlite_master WHERE name = 'items'")).toBeUndefined()
+  })
+
+  it("keeps other statements out of an open transaction", async () => {
+    const db = await createSqliteDb(":memory:")
+    await db.exec("CREATE TABLE items (id INTEGER PRIMARY KEY)")
+    let resume = () => {}
+    const paused = new Promise<void>((resolve) => (resume = resolve))
+    const transaction = db
+      .transaction(async (tx) => {
+        await tx.run("INSERT INTO items (id) VALUES (?)", [1])
+        await paused
+        throw new Error("abort")
+      })
+      .catch(() => {})
+    // Queued behind the transaction, so the rollback cannot take it along
+    const outside = db.run("INSERT INTO items (id) VALUES (?)", [2])
+    resume()
+    await Promise.all([transaction, outside])
+    expect(await db.all("SELECT id FROM items")).toEqual([{ id: 2 }])
+  })
+
+  it("applies every migration once", async () => {
+    const db = await createSqliteDb(":memory:")
+    await migrate(db)
+    await migrate(db)
+    const applied = await db.all<{ id: string }>("SELECT id FROM schema_migrations")
+    expect(applied.length).toBeGreaterThan(0)
+    expect(new Set(applied.map((row) => row.id)).size).toBe(applied.length)
+  })
+})
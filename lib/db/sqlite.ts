@@ -0,0 +1,65 @@
+import { mkdirSync } from "fs"
+import path from "path"
+import type { Db, SqlValue } from "./index"
+
+export async function createSqliteDb(filename: string): Promise<Db> {
+  const { default: Database } = await import("better-sqlite3")
+
+  if (filename !== ":memory:") {
+    mkdirSync(path.dirname(filename), { recursive: true })
+  }
+
+  const sqlite = new Database(filename)
+  sqlite.pragma("journal_mode = WAL")
+  sqlite.pragma("foreign_keys = ON")
+
+  // There is a single connection, so while a transaction is open (and awaiting
+  // between its statements) everyone else's statements queue behind it rather
+  // than running inside it. Resolved whenever no transaction is open.
+  let idle: Promise<void> = Promise.resolve()
+
+  function handle(inTransaction: boolean): Db {
+    const ready = () => (inTransaction ? undefined : idle)
+    const db: Db = {
+      dialect: "sqlite",
+      async all<T>(sql: string, params: SqlValue[] = []) {
+        await ready()
+        return sqlite.prepare(sql).all(...params) as T[]
+      },
+      async get<T>(sql: string, params: SqlValue[] = []) {
+        await ready()
+        return sqlite.prepare(sql).get(...params) as T | undefined
+      },
+      async run(sql, params = []) {
+        await ready()
+        const result = sqlite.prepare(sql).run(...params)
+        return { changes: result.changes }
+      },
+      async exec(sql) {
+        await ready()
+        sqlite.exec(sql)
+      },
+      async transaction(fn) {
+        if (inTransaction) return fn(db)
+        const previous = idle
+        let release = () => {}
+        idle = new Promise((resolve) => (release = resolve))
+        await previous
+        try {
+          sqlite.exec("BEGIN")
+          const result = await fn(handle(true))
+          sqlite.exec("COMMIT")
+          return result
+        } catch (error) {
+          if (sqlite.inTransaction) sqlite.exec("ROLLBACK")
+          throw error
+        } finally {
+          release()
+        }
+      },
+    }
+    return db
+  }
+
+  return handle(false)
+}
@@ -0,0 +1,48 @@
+// Department directory. This is the only place recipient addresses are defined:
+// clients submit a department ID and the server resolves it to an email.
+
+export type ReportCategory =
+  | "litter"
+  | "illegal_dumping"
+  | "graffiti"
+  | "trees"
+  | "transit_parking"
+  | "planning"
+  | "building"
+  | "public_health"
+  | "general"
+
+export interface Department {
+  id: string
+  name: string
+  email: string
+  categories: ReportCategory[]
+}
+
+export const departments: Department[] = [
+  { id: "sfpw", name: "SFPW (General Reporting)", email: "dpw@sfdpw.org", categories: ["litter", "illegal_dumping", "general"] },
+  { id: "urban-forestry", name: "Urban Forestry (Tree Issues)", email: "urbanforestry@sfdpw.org", categories: ["trees"] },
+  { id: "zero-graffiti", name: "Graffiti Removal (Public)", email: "zerograffiti@sfdpw.org", categories: ["graffiti"] },
+  { id: "sfpd-graffiti", name: "SFPD Graffiti Unit", email: "graffiti@sfgov.org", categories: ["graffiti"] },
+  { id: "sfmta-permits", name: "SFMTA (Transit/Parking/Permits)", email: "trafficpermits@sfmta.com", categories: ["transit_parking"] },
+  { id: "sfmta-general", name: "SFMTA (General/Budget)", email: "annie.knight@sfmta.com", categories: ["transit_parking", "general"] },
+  { id: "planning", name: "SF Planning", email: "pic@sfgov.org", categories: ["planning"] },
+  { id: "dbi", name: "Building Inspection (DBI)", email: "dbicustomerservice@sfgov.org", categories: ["building"] },
+  { id: "dph", name: "Department of Public Health", email: "contact@sfdph.org", categories: ["public_health"] },
+  { id: "dhr", name: "Department of Human Resources", email: "sfdhr@sfgov.org", categories: ["general"] },
+  { id: "mayor", name: "Mayor's Office", email: "mayorLondonBreed@sfgov.org", categories: ["general"] },
+  { id: "city-attorney", name: "City Attorney", email: "info@sfcityattorney.org", categories: ["general"] },
+  { id: "controller", name: "Controller’s Office", email: "controller@sfgov.org", categories: ["general"] },
+  { id: "rent-board", name: "Rent Board", email: "rentboard@sfgov.org", categories: ["general"] },
+  { id: "status-of-women", name: "Status of Women", email: "dosw@sfgov.org", categories: ["general"] },
+]
+
+export const DEFAULT_DEPARTMENT_ID = "sfpw"
+
+export function getDepartment(id: string): Department | undefined {
+  return departments.find((department) => department.id === id)
+}
+
+export function departmentsForCategory(category: ReportCategory): Department[] {
+  return departments.filter((department) => department.categories.includes(category))
+}
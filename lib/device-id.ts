@@ -0,0 +1,14 @@
+// Random per-browser ID used only for server-side rate limiting
+export function getDeviceId(): string {
+  const key = "sf-reporter-device-id"
+  try {
+    let id = localStorage.getItem(key)
+    if (!id) {
+      id = crypto.randomUUID()
+      localStorage.setItem(key, id)
+    }
+    return id
+  } catch {
+    return ""
+  }
+}
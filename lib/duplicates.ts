@@ -0,0 +1,50 @@
+import { haversineMeters } from "@/lib/geo/geometry"
+import { OPEN_REPORT_STATUSES } from "@/lib/report-types"
+import { listReportsNear, type Report } from "@/lib/reports"
+
+// Nearby duplicate detection. Ten people reporting the same couch should reach
+// the department as one report: a new report within DUPLICATE_RADIUS_METERS and
+// DUPLICATE_WINDOW_HOURS of an open report for the same department is stored as
+// a duplicate of it and not emailed.
+
+function settings() {
+  const radius = process.env.DUPLICATE_RADIUS_METERS
+  return {
+    // 0 turns detection off
+    radiusMeters: radius === undefined || radius === "" ? 50 : Number(radius) || 0,
+    windowMs: (Number(process.env.DUPLICATE_WINDOW_HOURS) || 72) * 60 * 60_000,
+  }
+}
+
+export interface NearbyReport {
+  report: Report
+  distanceMeters: number
+}
+
+// The closest open report near the point, for `departmentId` when given
+export async function findNearbyOpenReport(params: {
+  lat: number
+  lon: number
+  departmentId?: string
+  now?: number
+}): Promise<NearbyReport | null> {
+  const { radiusMeters, windowMs } = settings()
+  if (radiusMeters <= 0) return null
+
+  const reports = await listReportsNear({
+    lat: params.lat,
+    lon: params.lon,
+    radiusMeters,
+    since: new Date((params.now ?? Date.now()) - windowMs).toISOString(),
+    statuses: OPEN_REPORT_STATUSES,
+    departmentId: params.departmentId,
+  })
+  let nearest: NearbyReport | null = null
+  for (const report of reports) {
+    const distanceMeters = haversineMeters(params.lat, params.lon, report.lat, report.lon)
+    if (distanceMeters <= radiusMeters && (!nearest || distanceMeters < nearest.distanceMeters)) {
+      nearest = { report, distanceMeters }
+    }
+  }
+  return nearest
+}
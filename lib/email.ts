@@ -0,0 +1,159 @@
+import path from "path"
+import { getAsset, type Asset } from "@/lib/assets"
+import { getDepartment } from "@/lib/departments"
+import { logWithCorrelation } from "@/lib/logger"
+import { readPhoto } from "@/lib/photos"
+import { LOCATION_SOURCE_LABELS } from "@/lib/report-types"
+import type { Report } from "@/lib/reports"
+
+export interface EmailResult {
+  success: boolean
+  reference?: string
+  error?: string
+}
+
+function describeAsset(asset: Asset): string {
+  return [asset.code, asset.type.replace("_", " "), asset.label].filter(Boolean).join(" — ")
+}
+
+function describeAddress(report: Report): string | null {
+  if (!report.nearestAddress) return null
+  return report.crossStreet
+    ? `near ${report.nearestAddress} / cross street ${report.crossStreet}`
+    : `near ${report.nearestAddress}`
+}
+
+// Builds the report email from the stored report so the submit route and the
+// retry job send identical messages.
+export async function sendReportEmail(report: Report, correlationId = report.correlationId): Promise<EmailResult> {
+  try {
+    // Production email using Resend
+    if (!process.env.RESEND_API_KEY) {
+      throw new Error("RESEND_API_KEY not configured")
+    }
+
+    // Numbered in the reporter's order so "photo-1" is always the primary shot
+    const attachments = []
+    for (const [index, photoRef] of report.photoRefs.entries()) {
+      const photo = await readPhoto(photoRef)
+      attachments.push({
+        filename: `photo-${index + 1}${path.extname(photoRef)}`,
+        content: photo.toString("base64"),
+      })
+    }
+
+    const toEmail = process.env.NODE_ENV !== "production"
+      ? process.env.DEV_EMAIL || "joydip@bajarangs.com"
+      : report.recipientEmail;
+
+    const department = report.departmentId ? getDepartment(report.departmentId) : undefined
+    const coordinates = `${report.lat.toFixed(6)},${report.lon.toFixed(6)}`
+    const address = describeAddress(report)
+    const asset = report.assetId ? await getAsset(report.assetId) : null
+
+    const emailPayload = {
+      from: process.env.SENDER_EMAIL || "reports@qr-garbage-reporter.com",
+      to: toEmail,
+      subject: `Litter report — ${address ?? coordinates}${report.neighborhood ? ` — ${report.neighborhood}` : ""} — QR Reporter`,
+      text: `
+Source: QR-Driven Garbage Reporting Webapp
+When: ${report.observedAt}
+Where: ${coordinates} ${report.accuracy ? `(±${Math.round(report.accuracy)}m)` : ""}
+Address: ${address ?? "Unknown"}
+Location Source: ${LOCATION_SOURCE_LABELS[report.locationSource]}
+QR Code: ${asset ? describeAsset(asset) : "None"}
+Neighborhood: ${report.neighborhood ?? "Unknown"}
+Supervisor District: ${report.supervisorDistrict ?? "Unknown"}
+Police District: ${report.policeDistrict ?? "Unknown"}
+Department: ${department?.name ?? report.recipientEmail}
+Photos: ${report.photoRefs.length}
+Report ID: ${report.id}
+Report Number: ${report.reportNumber ?? "None"}
+Client Nonce: ${report.clientNonce}
+Correlation ID: ${report.correlationId}
+
+---
+User Message:
+${report.message || "No message provided."}
+---
+      `.trim(),
+      attachments: attachments,
+    }
+
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(emailPayload),
+      signal: AbortSignal.timeout(15000), // Increased timeout for attachments
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Email API error: ${response.status} ${error}`)
+    }
+
+    const result = await response.json()
+
+    logWithCorrelation(correlationId, "info", "Email sent successfully", {
+      messageId: result.id,
+      to: emailPayload.to,
+      nonce: report.clientNonce,
+      reportId: report.id,
+    })
+
+    return { success: true, reference: result.id }
+  } catch (error: any) {
+    logWithCorrelation(correlationId, "error", "Failed to send email", { error: error.message, reportId: report.id })
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" }
+  }
+}
+
+// Staff sign-in link. Outside production, without RESEND_API_KEY, the link is
+// logged instead so local sign-in works without an email account.
+export async function sendMagicLinkEmail(email: string, url: string, correlationId: string): Promise<EmailResult> {
+  try {
+    if (!process.env.RESEND_API_KEY) {
+      if (process.env.NODE_ENV !== "production") {
+        logWithCorrelation(correlationId, "info", "Sign-in link (email not configured)", { email, url })
+        return { success: true }
+      }
+      throw new Error("RESEND_API_KEY not configured")
+    }
+
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: process.env.SENDER_EMAIL || "reports@qr-garbage-reporter.com",
+        to: email,
+        subject: "Sign in to SF Garbage Reporter admin",
+        text: `
+Use this link to sign in to the SF Garbage Reporter admin area:
+
+${url}
+
+The link works once and expires in 15 minutes. If you did not ask to sign in, you can ignore this email.
+        `.trim(),
+      }),
+      signal: AbortSignal.timeout(10000),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(`Email API error: ${response.status} ${error}`)
+    }
+
+    const result = await response.json()
+    logWithCorrelation(correlationId, "info", "Sign-in link sent", { messageId: result.id })
+    return { success: true, reference: result.id }
+  } catch (error: any) {
+    logWithCorrelation(correlationId, "error", "Failed to send sign-in link", { error: error.message })
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" }
+  }
+}
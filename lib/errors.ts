@@ -0,0 +1,12 @@
+// Error with a machine-readable code and HTTP status, rendered by route handlers
+// as `{ status: "error", code, message }`.
+export class ApiError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
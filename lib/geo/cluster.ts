@@ -0,0 +1,44 @@
+// Marker clustering for maps with many reports. Points are grouped by the
+// square of screen pixels they fall into at the current zoom, which is cruder
+// than distance-based clustering but linear in the number of points, so it can
+// rerun on every zoom and time slider change.
+
+export interface Cluster<T> {
+  // Mean position of the clustered points
+  lat: number
+  lon: number
+  items: T[]
+}
+
+// Web Mercator pixel coordinates at `zoom` for 256 px tiles, as Leaflet uses
+function toPixel(lat: number, lon: number, zoom: number): { x: number; y: number } {
+  const scale = 256 * 2 ** zoom
+  const sin = Math.sin((lat * Math.PI) / 180)
+  return {
+    x: ((lon + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  }
+}
+
+export function clusterPoints<T extends { lat: number; lon: number }>(
+  points: T[],
+  zoom: number,
+  cellSize = 60,
+): Cluster<T>[] {
+  const cells = new Map<string, T[]>()
+  for (const point of points) {
+    const { x, y } = toPixel(point.lat, point.lon, zoom)
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`
+    const cell = cells.get(key)
+    if (cell) {
+      cell.push(point)
+    } else {
+      cells.set(key, [point])
+    }
+  }
+  return [...cells.values()].map((items) => ({
+    lat: items.reduce((sum, item) => sum + item.lat, 0) / items.length,
+    lon: items.reduce((sum, item) => sum + item.lon, 0) / items.length,
+    items,
+  }))
+}
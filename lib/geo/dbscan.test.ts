@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest"
+import { dbscan, type SpaceTimePoint } from "./dbscan"
+
+const DAY_MS = 24 * 60 * 60_000
+const options = { radiusMeters: 75, windowMs: 30 * DAY_MS, minPoints: 3 }
+const start = Date.parse("2026-03-02T12:00:00.000Z")
+
+// About `east` and `north` meters from a corner in the Mission, `days` after start
+function at(east: number, north: number, days = 0): SpaceTimePoint {
+  const lat = 37.76 + north / 111_195
+  return { lat, lon: -122.42 + east / (111_195 * Math.cos((lat * Math.PI) / 180)), time: start + days * DAY_MS }
+}
+
+const sorted = (clusters: number[][]) => clusters.map((members) => [...members].sort((a, b) => a - b))
+
+describe("dbscan", () => {
+  it("returns no clusters for no points", () => {
+    expect(dbscan([], options)).toEqual([])
+  })
+
+  it("clusters minPoints reports close together", () => {
+    expect(sorted(dbscan([at(0, 0), at(30, 0), at(0, 30)], options))).toEqual([[0, 1, 2]])
+  })
+
+  it("leaves fewer than minPoints reports as noise", () => {
+    expect(dbscan([at(0, 0), at(30, 0), at(500, 0)], options)).toEqual([])
+  })
+
+  it("keeps groups farther apart than the radius separate", () => {
+    const points = [at(0, 0), at(20, 0), at(0, 20), at(300, 0), at(320, 0), at(300, 20)]
+    expect(sorted(dbscan(points, options))).toEqual([
+      [0, 1, 2],
+      [3, 4, 5],
+    ])
+  })
+
+  it("keeps bursts at the same place but far apart in time separate", () => {
+    const points = [at(0, 0, 0), at(10, 0, 0), at(0, 10, 1), at(0, 0, 100), at(10, 0, 100), at(0, 10, 101)]
+    expect(sorted(dbscan(points, options))).toEqual([
+      [0, 1, 2],
+      [3, 4, 5],
+    ])
+  })
+
+  it("chains a place reported every few weeks into one cluster", () => {
+    const points = [0, 20, 40, 60, 80, 100].map((days) => at(0, 0, days))
+    expect(sorted(dbscan(points, options))).toEqual([[0, 1, 2, 3, 4, 5]])
+  })
+
+  it("chains neighbours across space the same way", () => {
+    const points = [0, 60, 120, 180, 240].map((east) => at(east, 0))
+    expect(sorted(dbscan(points, options))).toEqual([[0, 1, 2, 3, 4]])
+  })
+
+  it("adds border points reached from a core point, even when visited first as noise", () => {
+    // The first point has only one neighbour, the core point 60 m away
+    const points = [at(-60, 0), at(0, 0), at(30, 0), at(0, 30)]
+    expect(sorted(dbscan(points, options))).toEqual([[0, 1, 2, 3]])
+  })
+
+  it("does not join clusters through a border point", () => {
+    // The middle point is 70 m from the core of each group, but with three neighbours it is no core point itself
+    const points = [at(-70, 0), at(-100, 0), at(-70, 30), at(0, 0), at(70, 0), at(100, 0), at(70, 30)]
+    const clusters = sorted(dbscan(points, { ...options, minPoints: 4 }))
+    expect(clusters).toHaveLength(2)
+    expect(clusters.flat().sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6])
+  })
+
+  it("finds neighbours across grid cell edges", () => {
+    // 75 m cells: these sit in different cells but are only a few meters apart
+    expect(sorted(dbscan([at(74, 74), at(76, 74), at(76, 76)], options))).toEqual([[0, 1, 2]])
+  })
+})
@@ -0,0 +1,94 @@
+import { projectMeters } from "./geometry"
+
+// Spatio-temporal DBSCAN (ST-DBSCAN): two points are neighbours when they are
+// within `radiusMeters` of each other and `windowMs` apart in time. A point with
+// at least `minPoints` neighbours (itself included) is a core point, and clusters
+// grow from core points through their neighbours. The time window lets a site
+// that keeps getting reported form one long chain while one-off bursts far apart
+// in time stay separate.
+
+export interface SpaceTimePoint {
+  lat: number
+  lon: number
+  // Milliseconds since the epoch
+  time: number
+}
+
+export interface DbscanOptions {
+  radiusMeters: number
+  windowMs: number
+  minPoints: number
+}
+
+const NOISE = -1
+const UNVISITED = -2
+
+// Indexes of the points in each cluster. Points in no cluster are left out.
+export function dbscan(points: SpaceTimePoint[], options: DbscanOptions): number[][] {
+  if (points.length === 0) return []
+  const refLat = points.reduce((sum, point) => sum + point.lat, 0) / points.length
+  const projected = points.map((point) => projectMeters(point.lat, point.lon, refLat))
+
+  // Grid of radius-sized cells, so neighbours are only looked for in the 3×3 cells around a point
+  const cellOf = (index: number) => ({
+    x: Math.floor(projected[index].x / options.radiusMeters),
+    y: Math.floor(projected[index].y / options.radiusMeters),
+  })
+  const grid = new Map<string, number[]>()
+  for (let index = 0; index < points.length; index++) {
+    const { x, y } = cellOf(index)
+    const key = `${x}:${y}`
+    const cell = grid.get(key)
+    if (cell) {
+      cell.push(index)
+    } else {
+      grid.set(key, [index])
+    }
+  }
+
+  const neighbours = (index: number): number[] => {
+    const { x, y } = cellOf(index)
+    const result: number[] = []
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const other of grid.get(`${x + dx}:${y + dy}`) ?? []) {
+          const distance = Math.hypot(projected[other].x - projected[index].x, projected[other].y - projected[index].y)
+          const gap = Math.abs(points[other].time - points[index].time)
+          if (distance <= options.radiusMeters && gap <= options.windowMs) result.push(other)
+        }
+      }
+    }
+    return result
+  }
+
+  const labels = new Array<number>(points.length).fill(UNVISITED)
+  const clusters: number[][] = []
+  for (let index = 0; index < points.length; index++) {
+    if (labels[index] !== UNVISITED) continue
+    const seeds = neighbours(index)
+    if (seeds.length < options.minPoints) {
+      labels[index] = NOISE
+      continue
+    }
+
+    const cluster = clusters.length
+    const members = [index]
+    labels[index] = cluster
+    const queue = seeds.filter((seed) => seed !== index)
+    while (queue.length > 0) {
+      const next = queue.pop() as number
+      // Noise reached from a core point is a border point of this cluster
+      if (labels[next] === NOISE) {
+        labels[next] = cluster
+        members.push(next)
+      }
+      if (labels[next] !== UNVISITED) continue
+      labels[next] = cluster
+      members.push(next)
+      const more = neighbours(next)
+      if (more.length >= options.minPoints) queue.push(...more)
+    }
+    clusters.push(members)
+  }
+  return clusters
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+import { enrichLocation, neighborhoodNames } from "./enrichment"
+
+describe("enrichLocation", () => {
+  it("tags City Hall", () => {
+    expect(enrichLocation(37.7793, -122.4193)).toEqual({
+      supervisorDistrict: "5",
+      neighborhood: "Hayes Valley",
+      policeDistrict: "Northern",
+    })
+  })
+
+  it("puts the Outer Sunset in Taraval and District 4", () => {
+    expect(enrichLocation(37.76, -122.508)).toEqual({
+      supervisorDistrict: "4",
+      neighborhood: "Sunset/Parkside",
+      policeDistrict: "Taraval",
+    })
+  })
+
+  it("is empty outside the layers", () => {
+    expect(enrichLocation(37.8044, -122.2712)).toEqual({
+      supervisorDistrict: null,
+      neighborhood: null,
+      policeDistrict: null,
+    })
+  })
+
+  it("gives every point of a neighborhood the same districts", () => {
+    const districts = new Map<string, string>()
+    for (let lat = 37.705; lat < 37.835; lat += 0.0025) {
+      for (let lon = -122.515; lon < -122.355; lon += 0.0025) {
+        const { neighborhood, supervisorDistrict, policeDistrict } = enrichLocation(lat, lon)
+        if (!neighborhood) continue
+        const tags = `${supervisorDistrict}|${policeDistrict}`
+        expect(districts.get(neighborhood) ?? tags, `${lat},${lon}`).toBe(tags)
+        districts.set(neighborhood, tags)
+      }
+    }
+    expect([...districts.keys()].sort()).toEqual(neighborhoodNames())
+  })
+})
@@ -0,0 +1,43 @@
+import analysisNeighborhoods from "./layers/analysis-neighborhoods.json"
+import policeDistricts from "./layers/police-districts.json"
+import supervisorDistricts from "./layers/supervisor-districts.json"
+import { pointInPolygon, type FeatureCollection } from "./geometry"
+
+// Offline administrative-area lookup against the bundled layers in ./layers.
+// scripts/import-district-layers.mjs replaces them with the official DataSF
+// boundaries; each feature carries `id` and `name` properties.
+
+interface AreaProperties {
+  id: string
+  name: string
+}
+
+export interface LocationEnrichment {
+  supervisorDistrict: string | null
+  neighborhood: string | null
+  policeDistrict: string | null
+}
+
+const layers = {
+  supervisorDistrict: supervisorDistricts as unknown as FeatureCollection<AreaProperties>,
+  neighborhood: analysisNeighborhoods as unknown as FeatureCollection<AreaProperties>,
+  policeDistrict: policeDistricts as unknown as FeatureCollection<AreaProperties>,
+}
+
+function lookup(layer: FeatureCollection<AreaProperties>, lat: number, lon: number): AreaProperties | null {
+  const feature = layer.features.find((candidate) => pointInPolygon(lat, lon, candidate.geometry))
+  return feature ? feature.properties : null
+}
+
+export function enrichLocation(lat: number, lon: number): LocationEnrichment {
+  return {
+    supervisorDistrict: lookup(layers.supervisorDistrict, lat, lon)?.id ?? null,
+    neighborhood: lookup(layers.neighborhood, lat, lon)?.name ?? null,
+    policeDistrict: lookup(layers.policeDistrict, lat, lon)?.name ?? null,
+  }
+}
+
+// Every neighborhood in the bundled layer, for filters that offer all of them
+export function neighborhoodNames(): string[] {
+  return layers.neighborhood.features.map((feature) => feature.properties.name).sort()
+}
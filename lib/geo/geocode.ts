@@ -0,0 +1,66 @@
+import { segmentIntersection, snapToSegment, type Position } from "./geometry"
+import { centerlines, findStreet } from "./streets"
+
+// Offline forward geocoder for the manual location picker. Understands
+// intersections such as "Market St & 2nd St". House numbers are not looked up,
+// so a typed address is rejected rather than guessed.
+
+export interface GeocodeResult {
+  lat: number
+  lon: number
+  label: string
+}
+
+// Streets this far apart are not considered to meet
+const MAX_INTERSECTION_GAP_M = 60
+
+function segmentsOf(street: string): [Position, Position][] {
+  return centerlines.features
+    .filter((feature) => feature.properties.street === street)
+    .flatMap((feature) => {
+      const coordinates = feature.geometry.coordinates
+      return coordinates.slice(1).map((point, i) => [coordinates[i], point] as [Position, Position])
+    })
+}
+
+function geocodeIntersection(first: string, second: string): GeocodeResult | null {
+  const streetA = findStreet(first)
+  const streetB = findStreet(second)
+  if (!streetA || !streetB || streetA === streetB) return null
+
+  let best: { position: Position; gap: number } | null = null
+  for (const [a, b] of segmentsOf(streetA)) {
+    for (const [c, d] of segmentsOf(streetB)) {
+      const crossing = segmentIntersection(a, b, c, d)
+      if (crossing) {
+        best = { position: crossing, gap: 0 }
+        break
+      }
+      // Centerlines that stop just short of each other still form an intersection
+      for (const [point, from, to] of [[a, c, d], [b, c, d], [c, a, b], [d, a, b]] as [Position, Position, Position][]) {
+        const snapped = snapToSegment(point[1], point[0], from, to)
+        if (!best || snapped.distanceMeters < best.gap) {
+          best = { position: point, gap: snapped.distanceMeters }
+        }
+      }
+    }
+    if (best?.gap === 0) break
+  }
+
+  if (!best || best.gap > MAX_INTERSECTION_GAP_M) return null
+  return { lat: best.position[1], lon: best.position[0], label: `${streetA} & ${streetB}` }
+}
+
+export function geocode(query: string): GeocodeResult | null {
+  const cleaned = query
+    .replace(/,?\s*(san francisco|sf)(,?\s*ca(lifornia)?)?(\s*\d{5})?\s*$/i, "")
+    .trim()
+  if (!cleaned) return null
+
+  const intersection = cleaned.split(/\s*(?:&|\/|@|\band\b|\bat\b)\s*/i)
+  if (intersection.length === 2) {
+    return geocodeIntersection(intersection[0], intersection[1])
+  }
+
+  return null
+}
@@ -0,0 +1,35 @@
+import cityLimits from "./layers/sf-city-limits.json"
+import { distanceToBoundaryMeters, pointInPolygon, type FeatureCollection } from "./geometry"
+
+export interface GeofenceResult {
+  inside: boolean
+  enforced: boolean
+  // 0 when inside; otherwise how far outside the city limits the point is
+  distanceMeters: number
+}
+
+const boundary = (cityLimits as unknown as FeatureCollection<{ name: string }>).features[0].geometry
+
+// GEOFENCE_ENABLED=false turns the check off entirely; DEMO_MODE=true still runs
+// it (so the distance is logged) but lets out-of-bounds reports through.
+export function isGeofenceEnforced(): boolean {
+  return process.env.GEOFENCE_ENABLED !== "false" && process.env.DEMO_MODE !== "true"
+}
+
+export function isInSanFrancisco(lat: number, lon: number): boolean {
+  return pointInPolygon(lat, lon, boundary)
+}
+
+// `toleranceMeters` lets a fix whose accuracy circle overlaps the boundary pass
+export function checkGeofence(lat: number, lon: number, toleranceMeters = 0): GeofenceResult {
+  const enforced = isGeofenceEnforced()
+  if (isInSanFrancisco(lat, lon)) {
+    return { inside: true, enforced, distanceMeters: 0 }
+  }
+  const distanceMeters = Math.round(distanceToBoundaryMeters(lat, lon, boundary))
+  return { inside: distanceMeters <= toleranceMeters, enforced, distanceMeters }
+}
+
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${meters} m` : `${(meters / 1000).toFixed(1)} km`
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest"
+import { checkGeofence } from "./geofence"
+import {
+  distanceToBoundaryMeters,
+  haversineMeters,
+  pointInPolygon,
+  segmentIntersection,
+  snapToSegment,
+  type PolygonGeometry,
+} from "./geometry"
+
+// A 0.01° square around the origin with a 0.004° square hole in the middle
+const square: PolygonGeometry = {
+  type: "Polygon",
+  coordinates: [
+    [
+      [0, 0],
+      [0.01, 0],
+      [0.01, 0.01],
+      [0, 0.01],
+      [0, 0],
+    ],
+    [
+      [0.003, 0.003],
+      [0.007, 0.003],
+      [0.007, 0.007],
+      [0.003, 0.007],
+      [0.003, 0.003],
+    ],
+  ],
+}
+
+describe("pointInPolygon", () => {
+  it("finds points inside the shell", () => {
+    expect(pointInPolygon(0.001, 0.001, square)).toBe(true)
+    expect(pointInPolygon(0.009, 0.005, square)).toBe(true)
+  })
+
+  it("excludes points outside the shell", () => {
+    expect(pointInPolygon(0.005, -0.001, square)).toBe(false)
+    expect(pointInPolygon(0.011, 0.005, square)).toBe(false)
+  })
+
+  it("excludes points in a hole", () => {
+    expect(pointInPolygon(0.005, 0.005, square)).toBe(false)
+  })
+
+  it("is not fooled by a ray through a vertex", () => {
+    // The ray from this point runs along y = 0.01, through the corner at (0.01, 0.01)
+    const diamond: PolygonGeometry = {
+      type: "Polygon",
+      coordinates: [
+        [
+          [0, 0.01],
+          [0.01, 0],
+          [0.02, 0.01],
+          [0.01, 0.02],
+          [0, 0.01],
+        ],
+      ],
+    }
+    expect(pointInPolygon(0.01, 0.005, diamond)).toBe(true)
+    expect(pointInPolygon(0.01, -0.005, diamond)).toBe(false)
+  })
+
+  it("checks every polygon of a MultiPolygon", () => {
+    const shifted = square.coordinates[0].map(([lon, lat]): [number, number] => [lon + 1, lat])
+    const islands: PolygonGeometry = { type: "MultiPolygon", coordinates: [square.coordinates, [shifted]] }
+    expect(pointInPolygon(0.005, 1.005, islands)).toBe(true)
+    expect(pointInPolygon(0.005, 0.5, islands)).toBe(false)
+  })
+})
+
+describe("distances", () => {
+  it("measures great-circle distance", () => {
+    // One degree of latitude is about 111.2 km
+    expect(haversineMeters(37, -122, 38, -122)).toBeCloseTo(111_195, -1)
+  })
+
+  it("measures the distance to the nearest edge", () => {
+    expect(distanceToBoundaryMeters(0.005, -0.001, square)).toBeCloseTo(111.2, 0)
+    // Holes are part of the boundary
+    expect(distanceToBoundaryMeters(0.005, 0.005, square)).toBeCloseTo(222.4, 0)
+  })
+})
+
+describe("snapToSegment", () => {
+  it("interpolates the position along the segment", () => {
+    const snapped = snapToSegment(0.001, 0.0025, [0, 0], [0.01, 0])
+    expect(snapped.t).toBeCloseTo(0.25)
+    expect(snapped.position[0]).toBeCloseTo(0.0025)
+    expect(snapped.position[1]).toBeCloseTo(0)
+    expect(snapped.distanceMeters).toBeCloseTo(111.2, 0)
+  })
+
+  it("clamps to the nearer end", () => {
+    const before = snapToSegment(0, -0.001, [0, 0], [0.01, 0])
+    expect(before.t).toBe(0)
+    expect(before.position).toEqual([0, 0])
+    expect(before.distanceMeters).toBeCloseTo(111.2, 0)
+    expect(snapToSegment(0, 0.02, [0, 0], [0.01, 0]).t).toBe(1)
+  })
+
+  it("handles zero-length segments", () => {
+    expect(snapToSegment(0.001, 0, [0, 0], [0, 0])).toMatchObject({ t: 0, position: [0, 0] })
+  })
+})
+
+describe("segmentIntersection", () => {
+  it("finds where two segments cross", () => {
+    expect(segmentIntersection([0, 0], [2, 2], [0, 2], [2, 0])).toEqual([1, 1])
+  })
+
+  it("is null for segments that do not reach each other", () => {
+    expect(segmentIntersection([0, 0], [1, 1], [0, 4], [4, 0])).toBeNull()
+    expect(segmentIntersection([0, 0], [1, 0], [0, 1], [1, 1])).toBeNull()
+  })
+})
+
+describe("checkGeofence", () => {
+  it("accepts points in the city", () => {
+    expect(checkGeofence(37.7793, -122.4193)).toMatchObject({ inside: true, distanceMeters: 0 })
+  })
+
+  it("rejects points across the bay", () => {
+    const oakland = checkGeofence(37.8044, -122.2712)
+    expect(oakland.inside).toBe(false)
+    expect(oakland.distanceMeters).toBeGreaterThan(1000)
+  })
+
+  it("lets a fix within its tolerance of the boundary pass", () => {
+    const offshore = checkGeofence(37.76, -122.5125)
+    expect(offshore.inside).toBe(false)
+    expect(checkGeofence(37.76, -122.5125, offshore.distanceMeters).inside).toBe(true)
+  })
+})
@@ -0,0 +1,114 @@
+// Small planar/spherical helpers for working with bundled GeoJSON layers.
+// Coordinates follow GeoJSON order: [lon, lat].
+
+export type Position = [number, number]
+export type Ring = Position[]
+
+export type PolygonGeometry =
+  | { type: "Polygon"; coordinates: Ring[] }
+  | { type: "MultiPolygon"; coordinates: Ring[][] }
+
+export type LineStringGeometry = { type: "LineString"; coordinates: Position[] }
+
+export interface Feature<P, G = PolygonGeometry> {
+  type: "Feature"
+  properties: P
+  geometry: G
+}
+
+export interface FeatureCollection<P, G = PolygonGeometry> {
+  type: "FeatureCollection"
+  features: Feature<P, G>[]
+}
+
+const EARTH_RADIUS_M = 6_371_000
+
+export function haversineMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLon = toRad(lon2 - lon1)
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a))
+}
+
+// Equirectangular projection to metres around a reference latitude. Accurate to
+// well under 1% across a city-sized area.
+export function projectMeters(lat: number, lon: number, refLat: number): { x: number; y: number } {
+  const metersPerDegree = (Math.PI / 180) * EARTH_RADIUS_M
+  return { x: lon * metersPerDegree * Math.cos((refLat * Math.PI) / 180), y: lat * metersPerDegree }
+}
+
+function polygons(geometry: PolygonGeometry): Ring[][] {
+  return geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates
+}
+
+function pointInRing(lat: number, lon: number, ring: Ring): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Ray-casting test; the first ring of each polygon is the shell, the rest are holes
+export function pointInPolygon(lat: number, lon: number, geometry: PolygonGeometry): boolean {
+  return polygons(geometry).some(
+    ([shell, ...holes]) => pointInRing(lat, lon, shell) && !holes.some((hole) => pointInRing(lat, lon, hole)),
+  )
+}
+
+// Project a point onto the segment a-b. `t` is the position along the segment
+// (0 at a, 1 at b) and `distanceMeters` the distance from the point to it.
+export function snapToSegment(
+  lat: number,
+  lon: number,
+  a: Position,
+  b: Position,
+): { t: number; distanceMeters: number; position: Position } {
+  const p = projectMeters(lat, lon, lat)
+  const pa = projectMeters(a[1], a[0], lat)
+  const pb = projectMeters(b[1], b[0], lat)
+  const dx = pb.x - pa.x
+  const dy = pb.y - pa.y
+  const lengthSq = dx * dx + dy * dy
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - pa.x) * dx + (p.y - pa.y) * dy) / lengthSq))
+  return {
+    t,
+    distanceMeters: Math.hypot(p.x - (pa.x + t * dx), p.y - (pa.y + t * dy)),
+    position: [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])],
+  }
+}
+
+// Intersection point of segments a-b and c-d, or null if they do not cross
+export function segmentIntersection(a: Position, b: Position, c: Position, d: Position): Position | null {
+  const r = [b[0] - a[0], b[1] - a[1]]
+  const s = [d[0] - c[0], d[1] - c[1]]
+  const denominator = r[0] * s[1] - r[1] * s[0]
+  if (denominator === 0) return null
+  const t = ((c[0] - a[0]) * s[1] - (c[1] - a[1]) * s[0]) / denominator
+  const u = ((c[0] - a[0]) * r[1] - (c[1] - a[1]) * r[0]) / denominator
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null
+  return [a[0] + t * r[0], a[1] + t * r[1]]
+}
+
+// Distance from a point to the segment a-b, in metres
+export function distanceToSegmentMeters(lat: number, lon: number, a: Position, b: Position): number {
+  return snapToSegment(lat, lon, a, b).distanceMeters
+}
+
+// Shortest distance from a point to any edge of the geometry, in metres
+export function distanceToBoundaryMeters(lat: number, lon: number, geometry: PolygonGeometry): number {
+  let best = Infinity
+  for (const polygon of polygons(geometry)) {
+    for (const ring of polygon) {
+      for (let i = 1; i < ring.length; i++) {
+        best = Math.min(best, distanceToSegmentMeters(lat, lon, ring[i - 1], ring[i]))
+      }
+    }
+  }
+  return best
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+import { geocode } from "./geocode"
+import { describeLocation, interpolateHouseNumber, reverseGeocode } from "./reverse-geocode"
+
+describe("reverseGeocode", () => {
+  it("names the street and cross street at an intersection", () => {
+    const corner = geocode("Market St & 2nd St")!
+    const result = reverseGeocode(corner.lat, corner.lon)!
+    expect([result.street, result.crossStreet].sort()).toEqual(["2nd St", "Market St"])
+    expect(result.distanceMeters).toBe(0)
+  })
+
+  it("gives no house number for segments without address ranges", () => {
+    const result = reverseGeocode(37.79, -122.4)!
+    expect(result).toEqual({ address: null, street: "Market St", crossStreet: "1st St", distanceMeters: 26 })
+    expect(describeLocation(result)).toBe("near Market St / cross street 1st St")
+  })
+
+  it("leaves the cross street out when none is close", () => {
+    const result = reverseGeocode(37.75, -122.508)!
+    expect(result.crossStreet).toBeNull()
+    expect(describeLocation(result)).toBe(`near ${result.street}`)
+  })
+
+  it("gives up far from any street", () => {
+    expect(reverseGeocode(37.7, -122.3)).toBeNull()
+    // Inside the city but a few blocks from the nearest bundled street
+    expect(reverseGeocode(37.76, -122.508)).toBeNull()
+  })
+})
+
+describe("interpolateHouseNumber", () => {
+  // Like the DataSF export: odd numbers on the left, even on the right
+  const block = { street: "Market St", leftFrom: 101, leftTo: 199, rightFrom: 100, rightTo: 198 }
+
+  it("interpolates along the segment on the matching side", () => {
+    expect(interpolateHouseNumber(block, 0, true)).toBe(101)
+    expect(interpolateHouseNumber(block, 0.25, true)).toBe(125)
+    expect(interpolateHouseNumber(block, 0.5, false)).toBe(150)
+    expect(interpolateHouseNumber(block, 1, false)).toBe(198)
+  })
+
+  it("follows ranges that count down", () => {
+    expect(interpolateHouseNumber({ ...block, leftFrom: 199, leftTo: 101 }, 0.25, true)).toBe(175)
+  })
+
+  it("uses the other side when one has no addresses", () => {
+    expect(interpolateHouseNumber({ ...block, leftFrom: 0, leftTo: 0 }, 0.5, true)).toBe(150)
+  })
+
+  it("gives nothing without address ranges", () => {
+    expect(interpolateHouseNumber({ street: "Market St" }, 0.5, true)).toBeNull()
+  })
+})
+
+describe("geocode", () => {
+  it("resolves intersections however they are written", () => {
+    const expected = { lat: 37.7752, lon: -122.4192, label: "Van Ness Ave & Market St" }
+    expect(geocode("Van Ness Ave & Market St")).toEqual(expected)
+    expect(geocode("van ness avenue and market street, San Francisco, CA 94102")).toEqual(expected)
+    expect(geocode("Van Ness / Market")).toEqual(expected)
+  })
+
+  it("does not guess house numbers", () => {
+    expect(geocode("123 Market St")).toBeNull()
+  })
+
+  it("rejects streets that do not meet", () => {
+    expect(geocode("Market St & Great Hwy")).toBeNull()
+    expect(geocode("Market St & Nowhere St")).toBeNull()
+  })
+})
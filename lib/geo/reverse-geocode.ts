@@ -0,0 +1,101 @@
+import { haversineMeters, snapToSegment, type Position } from "./geometry"
+import { centerlines, type CenterlineProperties } from "./streets"
+
+// Offline reverse geocoder over the bundled street centerlines. It names the
+// nearest street and cross street, and a house number interpolated from the
+// segment's address range on the matching side of the street when the layer
+// has address ranges.
+
+export interface ReverseGeocodeResult {
+  // House number and street, e.g. "123 Market St", when the segment has address ranges
+  address: string | null
+  street: string
+  crossStreet: string | null
+  distanceMeters: number
+}
+
+// Beyond this the nearest centerline is unlikely to be the street the report is
+// on: a city block is rarely deeper than this from its nearest street
+const MAX_STREET_DISTANCE_M = 100
+const MAX_CROSS_STREET_DISTANCE_M = 250
+
+interface Match {
+  properties: CenterlineProperties
+  distanceMeters: number
+  position: Position
+  // How far along the whole LineString the snapped point is, from 0 to 1
+  fraction: number
+  // Whether the point is on the left of the line, looking from its first vertex
+  left: boolean
+}
+
+function nearestSegment(lat: number, lon: number, excludeStreet?: string): Match | null {
+  let best: Match | null = null
+  for (const feature of centerlines.features) {
+    if (feature.properties.street === excludeStreet) continue
+    const coordinates = feature.geometry.coordinates
+    const lengths = coordinates
+      .slice(1)
+      .map((end, i) => haversineMeters(coordinates[i][1], coordinates[i][0], end[1], end[0]))
+    const total = lengths.reduce((sum, length) => sum + length, 0)
+    let before = 0
+    for (let i = 1; i < coordinates.length; i++) {
+      const [a, b] = [coordinates[i - 1], coordinates[i]]
+      const snapped = snapToSegment(lat, lon, a, b)
+      if (!best || snapped.distanceMeters < best.distanceMeters) {
+        const scale = Math.cos((lat * Math.PI) / 180)
+        const cross = (b[0] - a[0]) * scale * (lat - a[1]) - (b[1] - a[1]) * (lon - a[0]) * scale
+        best = {
+          properties: feature.properties,
+          distanceMeters: snapped.distanceMeters,
+          position: snapped.position,
+          fraction: total > 0 ? (before + snapped.t * lengths[i - 1]) / total : 0,
+          left: cross > 0,
+        }
+      }
+      before += lengths[i - 1]
+    }
+  }
+  return best
+}
+
+// The house number `fraction` of the way along a segment, on the given side or
+// the other when that side has no range. Numbers keep the parity of the range
+// start, since each side of a San Francisco street is all odd or all even.
+export function interpolateHouseNumber(
+  properties: CenterlineProperties,
+  fraction: number,
+  left: boolean,
+): number | null {
+  const sides = [
+    [properties.leftFrom, properties.leftTo],
+    [properties.rightFrom, properties.rightTo],
+  ]
+  const [from, to] = (left ? sides : sides.reverse()).find(([start, end]) => !!start && !!end) ?? []
+  if (!from || !to) return null
+  return from + 2 * Math.round((fraction * (to - from)) / 2)
+}
+
+export function reverseGeocode(lat: number, lon: number): ReverseGeocodeResult | null {
+  const street = nearestSegment(lat, lon)
+  if (!street || street.distanceMeters > MAX_STREET_DISTANCE_M) {
+    return null
+  }
+
+  // The cross street is the nearest other street to the snapped point on this one
+  const [snappedLon, snappedLat] = street.position
+  const cross = nearestSegment(snappedLat, snappedLon, street.properties.street)
+
+  const houseNumber = interpolateHouseNumber(street.properties, street.fraction, street.left)
+  return {
+    address: houseNumber ? `${houseNumber} ${street.properties.street}` : null,
+    street: street.properties.street,
+    crossStreet: cross && cross.distanceMeters <= MAX_CROSS_STREET_DISTANCE_M ? cross.properties.street : null,
+    distanceMeters: Math.round(street.distanceMeters),
+  }
+}
+
+export function describeLocation(result: ReverseGeocodeResult): string {
+  const place = result.address ?? result.street
+  return result.crossStreet ? `near ${place} / cross street ${result.crossStreet}` : `near ${place}`
+}
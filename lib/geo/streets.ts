@@ -0,0 +1,52 @@
+import streetCenterlines from "./layers/street-centerlines.json"
+import type { FeatureCollection, LineStringGeometry } from "./geometry"
+
+// Bundled street centerlines shared by the forward and reverse geocoders.
+
+// Address ranges run from the first vertex of the LineString to the last, one per
+// side of the street as seen in that direction. The DataSF centerline export
+// has them (see scripts/import-street-centerlines.mjs); hand-drawn segments do not.
+export interface CenterlineProperties {
+  street: string
+  leftFrom?: number
+  leftTo?: number
+  rightFrom?: number
+  rightTo?: number
+}
+
+export const centerlines = streetCenterlines as unknown as FeatureCollection<CenterlineProperties, LineStringGeometry>
+
+const SUFFIXES: Record<string, string> = {
+  street: "st",
+  avenue: "ave",
+  av: "ave",
+  boulevard: "blvd",
+  highway: "hwy",
+  road: "rd",
+  drive: "dr",
+}
+
+// Lower-cased, punctuation-free form with USPS-style suffixes, e.g.
+// "Market Street" -> "market st"
+export function normalizeStreetName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[.,]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => SUFFIXES[word] ?? word)
+    .join(" ")
+}
+
+const SUFFIX_PATTERN = /\s(st|ave|blvd|hwy|rd|dr|way)$/
+
+// Find the canonical street matching a user-typed name, with or without suffix
+export function findStreet(name: string): string | null {
+  const wanted = normalizeStreetName(name)
+  const streets = Array.from(new Set(centerlines.features.map((feature) => feature.properties.street)))
+  return (
+    streets.find((street) => normalizeStreetName(street) === wanted) ??
+    streets.find((street) => normalizeStreetName(street).replace(SUFFIX_PATTERN, "") === wanted) ??
+    null
+  )
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+import { getDb } from "./db"
+import { listHotspots, refreshHotspots } from "./hotspots"
+import { fileReport } from "./test-helpers"
+
+async function fileReportAt(lat: number, lon: number) {
+  return (await fileReport({ lat, lon })).id
+}
+
+describe("refreshHotspots", () => {
+  it("replaces the previous run's hotspots", async () => {
+    const ids = [
+      await fileReportAt(37.7599, -122.4148),
+      await fileReportAt(37.7601, -122.4148),
+      await fileReportAt(37.76, -122.4146),
+    ]
+    // A one-off report elsewhere stays out
+    await fileReportAt(37.78, -122.41)
+
+    const first = await refreshHotspots(new Date(Date.now() + 1000))
+    expect(first).toMatchObject({ reportCount: 4, hotspotCount: 1 })
+    const second = await refreshHotspots(new Date(Date.now() + 2000))
+
+    const { computedAt, hotspots } = await listHotspots({})
+    expect(computedAt).toBe(second.computedAt)
+    expect(hotspots).toHaveLength(1)
+    expect([...hotspots[0].reportIds].sort()).toEqual([...ids].sort())
+    expect(hotspots[0].lat).toBeCloseTo(37.76, 6)
+
+    const db = await getDb()
+    const stored = await db.get<{ count: number | string }>("SELECT COUNT(*) AS count FROM hotspots")
+    expect(Number(stored?.count)).toBe(1)
+    const links = await db.get<{ count: number | string }>("SELECT COUNT(*) AS count FROM hotspot_reports")
+    expect(Number(links?.count)).toBe(3)
+  })
+})
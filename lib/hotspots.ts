@@ -0,0 +1,240 @@
+import { getDb, type SqlValue } from "@/lib/db"
+import { dbscan } from "@/lib/geo/dbscan"
+import { haversineMeters } from "@/lib/geo/geometry"
+
+// Repeat-dumping hotspots for enforcement. A batch job (/api/hotspots/refresh,
+// run by cron) clusters recent reports in space and time and replaces the stored
+// hotspots with the result, so reading them is cheap.
+
+export interface Hotspot {
+  id: string
+  // Centre of the reports in the hotspot
+  lat: number
+  lon: number
+  // Distance from the centre to the furthest report
+  radiusM: number
+  reportCount: number
+  // Distinct days with a report. Repeat dumping shows here; a pile reported by
+  // ten people on one afternoon does not.
+  activeDays: number
+  firstReportAt: string
+  lastReportAt: string
+  score: number
+  // Where most of the reports fall and were sent
+  neighborhood: string | null
+  departmentId: string | null
+  computedAt: string
+  reportIds: string[]
+}
+
+export interface HotspotRun {
+  computedAt: string
+  reportCount: number
+  hotspotCount: number
+}
+
+const DAY_MS = 24 * 60 * 60_000
+// Reports older than this are left out of the clustering
+const LOOKBACK_DAYS = 180
+// Reports this close in time can join the same hotspot; repeat sites chain across longer spans
+const NEIGHBOUR_WINDOW_DAYS = 30
+// Each day with reports counts half as much in the score after this many days
+const RECENCY_HALF_LIFE_DAYS = 30
+const MIN_RADIUS_M = 15
+
+function settings() {
+  return {
+    radiusMeters: Number(process.env.HOTSPOT_RADIUS_METERS) || 75,
+    minPoints: Number(process.env.HOTSPOT_MIN_REPORTS) || 3,
+    windowMs: NEIGHBOUR_WINDOW_DAYS * DAY_MS,
+  }
+}
+
+interface HotspotRow {
+  id: string
+  lat: number
+  lon: number
+  radius_m: number
+  report_count: number
+  active_days: number
+  first_report_at: string
+  last_report_at: string
+  score: number
+  neighborhood: string | null
+  department_id: string | null
+  computed_at: string
+}
+
+function fromRow(row: HotspotRow, reportIds: string[]): Hotspot {
+  return {
+    id: row.id,
+    lat: Number(row.lat),
+    lon: Number(row.lon),
+    radiusM: Number(row.radius_m),
+    reportCount: Number(row.report_count),
+    activeDays: Number(row.active_days),
+    firstReportAt: row.first_report_at,
+    lastReportAt: row.last_report_at,
+    score: Number(row.score),
+    neighborhood: row.neighborhood,
+    departmentId: row.department_id,
+    computedAt: row.computed_at,
+    reportIds,
+  }
+}
+
+function toRow(hotspot: Hotspot): HotspotRow {
+  return {
+    id: hotspot.id,
+    lat: hotspot.lat,
+    lon: hotspot.lon,
+    radius_m: hotspot.radiusM,
+    report_count: hotspot.reportCount,
+    active_days: hotspot.activeDays,
+    first_report_at: hotspot.firstReportAt,
+    last_report_at: hotspot.lastReportAt,
+    score: hotspot.score,
+    neighborhood: hotspot.neighborhood,
+    department_id: hotspot.departmentId,
+    computed_at: hotspot.computedAt,
+  }
+}
+
+// Recurrence weighted by recency: every distinct day with a report adds up to 1,
+// halving every RECENCY_HALF_LIFE_DAYS. A site reported on six days last month
+// outranks one reported on six days last spring, and both outrank a one-day pile.
+export function scoreHotspot(reportTimes: number[], now: number): number {
+  const days = new Set(reportTimes.map((time) => Math.floor(time / DAY_MS)))
+  let score = 0
+  for (const day of days) {
+    const ageDays = Math.max(0, (now - day * DAY_MS) / DAY_MS)
+    score += 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS)
+  }
+  return Math.round(score * 100) / 100
+}
+
+// The most common non-null value
+function mostCommon(values: (string | null)[]): string | null {
+  const counts = new Map<string, number>()
+  for (const value of values) if (value !== null) counts.set(value, (counts.get(value) ?? 0) + 1)
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null
+}
+
+// Re-clusters the reports of the last LOOKBACK_DAYS and replaces the stored hotspots
+export async function refreshHotspots(now = new Date()): Promise<HotspotRun> {
+  const db = await getDb()
+  const reports = await db.all<{
+    id: string
+    lat: number
+    lon: number
+    observed_at: string
+    neighborhood: string | null
+    department_id: string | null
+  }>("SELECT id, lat, lon, observed_at, neighborhood, department_id FROM reports WHERE created_at >= ?", [
+    new Date(now.getTime() - LOOKBACK_DAYS * DAY_MS).toISOString(),
+  ])
+
+  // When the problem was seen, which for photo-located reports can be well before they were filed
+  const points = reports.map((report) => ({
+    lat: Number(report.lat),
+    lon: Number(report.lon),
+    time: Date.parse(report.observed_at),
+  }))
+  const computedAt = now.toISOString()
+
+  const hotspots = dbscan(points, settings()).map((members): Hotspot => {
+    const lat = members.reduce((sum, index) => sum + points[index].lat, 0) / members.length
+    const lon = members.reduce((sum, index) => sum + points[index].lon, 0) / members.length
+    const times = members.map((index) => points[index].time)
+    return {
+      id: crypto.randomUUID(),
+      lat,
+      lon,
+      radiusM: Math.max(
+        MIN_RADIUS_M,
+        ...members.map((index) => haversineMeters(lat, lon, points[index].lat, points[index].lon)),
+      ),
+      reportCount: members.length,
+      activeDays: new Set(times.map((time) => Math.floor(time / DAY_MS))).size,
+      firstReportAt: new Date(Math.min(...times)).toISOString(),
+      lastReportAt: new Date(Math.max(...times)).toISOString(),
+      score: scoreHotspot(times, now.getTime()),
+      neighborhood: mostCommon(members.map((index) => reports[index].neighborhood)),
+      departmentId: mostCommon(members.map((index) => reports[index].department_id)),
+      computedAt,
+      reportIds: members.map((index) => reports[index].id),
+    }
+  })
+
+  // One transaction, so readers see either the previous run or the whole new one,
+  // and a failed run leaves the previous hotspots in place
+  const run: HotspotRun = { computedAt, reportCount: reports.length, hotspotCount: hotspots.length }
+  await db.transaction(async (tx) => {
+    for (const hotspot of hotspots) {
+      const row = toRow(hotspot)
+      const columns = Object.keys(row)
+      await tx.run(
+        `INSERT INTO hotspots (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+        Object.values(row) as SqlValue[],
+      )
+      for (const reportId of hotspot.reportIds) {
+        await tx.run("INSERT INTO hotspot_reports (hotspot_id, report_id) VALUES (?, ?)", [hotspot.id, reportId])
+      }
+    }
+    await tx.run("INSERT INTO hotspot_runs (computed_at, report_count, hotspot_count) VALUES (?, ?, ?)", [
+      run.computedAt,
+      run.reportCount,
+      run.hotspotCount,
+    ])
+    await tx.run(
+      "DELETE FROM hotspot_reports WHERE hotspot_id IN (SELECT id FROM hotspots WHERE computed_at < ?)",
+      [computedAt],
+    )
+    await tx.run("DELETE FROM hotspots WHERE computed_at < ?", [computedAt])
+  })
+  return run
+}
+
+async function getLatestHotspotRun(): Promise<HotspotRun | null> {
+  const db = await getDb()
+  const row = await db.get<{ computed_at: string; report_count: number; hotspot_count: number }>(
+    "SELECT * FROM hotspot_runs ORDER BY computed_at DESC LIMIT 1",
+  )
+  return row
+    ? { computedAt: row.computed_at, reportCount: Number(row.report_count), hotspotCount: Number(row.hotspot_count) }
+    : null
+}
+
+// Hotspots from the latest run, highest score first, limited to those mostly
+// sent to `departmentId` when it is given. `computedAt` is null before the first run.
+export async function listHotspots(filter: {
+  departmentId?: string
+  limit?: number
+}): Promise<{ computedAt: string | null; hotspots: Hotspot[] }> {
+  const run = await getLatestHotspotRun()
+  if (!run) return { computedAt: null, hotspots: [] }
+
+  const conditions = ["computed_at = ?"]
+  const params: SqlValue[] = [run.computedAt]
+  if (filter.departmentId !== undefined) {
+    conditions.push("department_id = ?")
+    params.push(filter.departmentId)
+  }
+  const db = await getDb()
+  const rows = await db.all<HotspotRow>(
+    `SELECT * FROM hotspots WHERE ${conditions.join(" AND ")} ORDER BY score DESC, report_count DESC LIMIT ?`,
+    [...params, filter.limit ?? 100],
+  )
+
+  const reportIds = new Map<string, string[]>()
+  if (rows.length > 0) {
+    const links = await db.all<{ hotspot_id: string; report_id: string }>(
+      `SELECT hotspot_id, report_id FROM hotspot_reports WHERE hotspot_id IN (${rows.map(() => "?").join(", ")})`,
+      rows.map((row) => row.id),
+    )
+    for (const link of links) {
+      reportIds.set(link.hotspot_id, [...(reportIds.get(link.hotspot_id) ?? []), link.report_id])
+    }
+  }
+  return { computedAt: run.computedAt, hotspots: rows.map((row) => fromRow(row, reportIds.get(row.id) ?? [])) }
+}
@@ -0,0 +1,64 @@
+import { ApiError } from "@/lib/errors"
+
+// Server-side photo sanitising. Uploads are identified by their magic bytes
+// (never the declared content type), fully decoded, and re-encoded at bounded
+// dimensions. Re-encoding drops EXIF/XMP/ICC metadata, which can carry GPS
+// traces and device serial numbers.
+
+export type ImageFormat = "jpeg" | "png" | "webp"
+
+export interface ProcessedPhoto {
+  bytes: Buffer
+  contentType: string
+  extension: string
+  width: number
+  height: number
+}
+
+const MAX_DIMENSION = Number(process.env.PHOTO_MAX_DIMENSION) || 2048
+// Refuse decompression bombs; comfortably above 48MP phone sensors
+const MAX_INPUT_PIXELS = 100_000_000
+const OUTPUT_FORMAT: "jpeg" | "webp" = process.env.PHOTO_OUTPUT_FORMAT === "webp" ? "webp" : "jpeg"
+
+export function sniffImageFormat(bytes: Buffer): ImageFormat | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "jpeg"
+  }
+  if (bytes.length >= 8 && bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "png"
+  }
+  if (bytes.length >= 12 && bytes.toString("ascii", 0, 4) === "RIFF" && bytes.toString("ascii", 8, 12) === "WEBP") {
+    return "webp"
+  }
+  return null
+}
+
+export async function processPhoto(bytes: Buffer): Promise<ProcessedPhoto> {
+  if (!sniffImageFormat(bytes)) {
+    throw new ApiError("invalid_photo", "The attached file is not a supported image.")
+  }
+
+  const { default: sharp } = await import("sharp")
+
+  try {
+    const pipeline = sharp(bytes, { limitInputPixels: MAX_INPUT_PIXELS, failOn: "error" })
+      // Bake EXIF orientation into the pixels before the metadata is dropped
+      .rotate()
+      .resize({ width: MAX_DIMENSION, height: MAX_DIMENSION, fit: "inside", withoutEnlargement: true })
+
+    const { data, info } = await (OUTPUT_FORMAT === "webp"
+      ? pipeline.webp({ quality: 80 })
+      : pipeline.jpeg({ quality: 82, mozjpeg: true })
+    ).toBuffer({ resolveWithObject: true })
+
+    return {
+      bytes: data,
+      contentType: `image/${OUTPUT_FORMAT}`,
+      extension: OUTPUT_FORMAT === "jpeg" ? "jpg" : "webp",
+      width: info.width,
+      height: info.height,
+    }
+  } catch {
+    throw new ApiError("invalid_photo", "The attached photo could not be read. Please try another image.")
+  }
+}
@@ -0,0 +1,16 @@
+// Production logging with correlation IDs
+export function logWithCorrelation(
+  correlationId: string,
+  level: "info" | "warn" | "error",
+  message: string,
+  data?: any,
+) {
+  const logEntry = {
+    timestamp: new Date().toISOString(),
+    correlationId,
+    level,
+    message,
+    ...(data && { data }),
+  }
+  console.log(JSON.stringify(logEntry))
+}
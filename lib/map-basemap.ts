@@ -0,0 +1,39 @@
+import type * as Leaflet from "leaflet"
+import { MAP_TILE_ATTRIBUTION, MAP_TILE_URL } from "@/lib/map-config"
+
+// Unless NEXT_PUBLIC_MAP_TILE_URL names a tile server, maps draw the bundled city
+// limits, neighborhoods and street centerlines instead of fetching raster tiles,
+// so they make no third-party requests. The outlines are loaded only then.
+export const OFFLINE_BASEMAP = MAP_TILE_URL === "none"
+
+const OUTLINE = "#94a3b8"
+
+export function addBasemap(L: typeof Leaflet, map: Leaflet.Map): void {
+  if (!OFFLINE_BASEMAP) {
+    L.tileLayer(MAP_TILE_URL, { attribution: MAP_TILE_ATTRIBUTION, maxZoom: 19 }).addTo(map)
+    return
+  }
+
+  Promise.all([
+    import("@/lib/geo/layers/sf-city-limits.json"),
+    import("@/lib/geo/layers/analysis-neighborhoods.json"),
+    import("@/lib/geo/layers/street-centerlines.json"),
+  ]).then(([cityLimits, neighborhoods, streets]) => {
+    const layers = [
+      L.geoJSON(cityLimits.default as GeoJSON.GeoJsonObject, {
+        style: { color: OUTLINE, weight: 2, fillColor: "#f8fafc", fillOpacity: 1 },
+        interactive: false,
+      }),
+      L.geoJSON(neighborhoods.default as GeoJSON.GeoJsonObject, {
+        style: { color: OUTLINE, weight: 1, dashArray: "4 4", fill: false },
+        onEachFeature: (feature, layer) => layer.bindTooltip(feature.properties.name, { sticky: true }),
+      }),
+      L.geoJSON(streets.default as GeoJSON.GeoJsonObject, {
+        style: { color: "#cbd5e1", weight: 3 },
+        onEachFeature: (feature, layer) => layer.bindTooltip(feature.properties.street, { sticky: true }),
+      }),
+    ]
+    // Below anything the map adds itself, however late the outlines arrive
+    for (const layer of [...layers].reverse()) layer.addTo(map).bringToBack()
+  })
+}
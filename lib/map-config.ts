@@ -0,0 +1,10 @@
+// Basemap settings shared by every map in the app. Maps use the bundled offline
+// basemap unless NEXT_PUBLIC_MAP_TILE_URL names a tile server, preferably a
+// self-hosted one: public OpenStreetMap tiles are not meant for production apps.
+export const MAP_TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || "none"
+
+export const MAP_TILE_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || "&copy; OpenStreetMap contributors"
+
+// San Francisco City Hall
+export const SF_CENTER = { lat: 37.7793, lon: -122.4193 }
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  MAX_ATTEMPTS,
+  backoffDelay,
+  claimDueDeliveries,
+  countPendingDeliveries,
+  enqueueDelivery,
+  markDeliveryFailed,
+  markDeliverySent,
+} from "./outbox"
+import { fileReport } from "./test-helpers"
+
+const MINUTE = 60_000
+
+async function newReport(): Promise<string> {
+  return (await fileReport()).id
+}
+
+describe("backoffDelay", () => {
+  it("doubles from one minute", () => {
+    expect(backoffDelay(1)).toBe(MINUTE)
+    expect(backoffDelay(2)).toBe(2 * MINUTE)
+    expect(backoffDelay(5)).toBe(16 * MINUTE)
+  })
+
+  it("is capped at six hours", () => {
+    expect(backoffDelay(20)).toBe(6 * 60 * MINUTE)
+  })
+})
+
+describe("delivery outbox", () => {
+  let now = Date.parse("2026-03-02T12:00:00.000Z")
+  const advance = (ms: number) => {
+    now += ms
+    vi.setSystemTime(now)
+  }
+
+  beforeEach(() => {
+    // Only Date is faked so the database promises still resolve
+    vi.useFakeTimers({ toFake: ["Date"] })
+    advance(24 * 60 * MINUTE)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("holds a failed delivery back until its backoff has passed", async () => {
+    const reportId = await newReport()
+    await enqueueDelivery(reportId, "SMTP timeout")
+
+    expect(await claimDueDeliveries(10)).toEqual([])
+    advance(MINUTE)
+    expect((await claimDueDeliveries(10)).map((entry) => entry.reportId)).toEqual([reportId])
+    await markDeliverySent(reportId)
+  })
+
+  it("hides a claimed entry from other workers until the lease expires", async () => {
+    const reportId = await newReport()
+    await enqueueDelivery(reportId, "SMTP timeout")
+    advance(MINUTE)
+
+    const [first, second] = await Promise.all([claimDueDeliveries(10), claimDueDeliveries(10)])
+    expect([...first, ...second].map((entry) => entry.reportId)).toEqual([reportId])
+    advance(MINUTE)
+    expect(await claimDueDeliveries(10)).toEqual([])
+    // The worker died without recording an outcome
+    advance(MINUTE)
+    expect((await claimDueDeliveries(10)).map((entry) => entry.reportId)).toEqual([reportId])
+    await markDeliverySent(reportId)
+  })
+
+  it("gives up after MAX_ATTEMPTS", async () => {
+    const reportId = await newReport()
+    let entry = await enqueueDelivery(reportId, "SMTP timeout")
+    while (entry.status === "pending") {
+      advance(backoffDelay(entry.attempts))
+      const [claimed] = await claimDueDeliveries(10)
+      expect(claimed.reportId).toBe(reportId)
+      entry = await markDeliveryFailed(claimed, "SMTP timeout")
+    }
+    expect(entry.attempts).toBe(MAX_ATTEMPTS)
+    expect(entry.status).toBe("dead")
+    advance(24 * 60 * MINUTE)
+    expect(await claimDueDeliveries(10)).toEqual([])
+    expect(await countPendingDeliveries()).toBe(0)
+  })
+})
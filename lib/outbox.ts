@@ -0,0 +1,139 @@
+import { getDb } from "@/lib/db"
+
+// Delivery outbox: reports whose email could not be sent are queued here and
+// re-sent by /api/retry with exponential backoff until MAX_ATTEMPTS is reached.
+
+export type OutboxStatus = "pending" | "sent" | "dead"
+
+export interface OutboxEntry {
+  reportId: string
+  status: OutboxStatus
+  attempts: number
+  nextAttemptAt: string
+  lastError: string | null
+}
+
+export const MAX_ATTEMPTS = 8
+const BASE_DELAY_MS = 60_000
+const MAX_DELAY_MS = 6 * 60 * 60_000
+// How long a claimed entry is hidden from other workers while it is being sent
+const CLAIM_LEASE_MS = 2 * 60_000
+
+interface OutboxRow {
+  report_id: string
+  status: OutboxStatus
+  attempts: number
+  next_attempt_at: string
+  last_error: string | null
+}
+
+function fromRow(row: OutboxRow): OutboxEntry {
+  return {
+    reportId: row.report_id,
+    status: row.status,
+    attempts: Number(row.attempts),
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error,
+  }
+}
+
+export function backoffDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_MS)
+}
+
+// Queue a report after its first delivery attempt failed
+export async function enqueueDelivery(reportId: string, error: string): Promise<OutboxEntry> {
+  const db = await getDb()
+  const now = new Date()
+  const entry: OutboxEntry = {
+    reportId,
+    status: "pending",
+    attempts: 1,
+    nextAttemptAt: new Date(now.getTime() + backoffDelay(1)).toISOString(),
+    lastError: error,
+  }
+
+  await db.run(
+    `INSERT INTO delivery_outbox (report_id, status, attempts, next_attempt_at, last_error, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (report_id) DO NOTHING`,
+    [entry.reportId, entry.status, entry.attempts, entry.nextAttemptAt, entry.lastError, now.toISOString(), now.toISOString()],
+  )
+
+  return entry
+}
+
+// Claim up to `limit` due entries. Each claim pushes next_attempt_at forward by a
+// short lease so overlapping cron invocations do not send the same report twice.
+export async function claimDueDeliveries(limit: number): Promise<OutboxEntry[]> {
+  const db = await getDb()
+  const now = new Date()
+  const rows = await db.all<OutboxRow>(
+    `SELECT * FROM delivery_outbox
+     WHERE status = 'pending' AND next_attempt_at <= ?
+     ORDER BY next_attempt_at
+     LIMIT ?`,
+    [now.toISOString(), limit],
+  )
+
+  const leaseUntil = new Date(now.getTime() + CLAIM_LEASE_MS).toISOString()
+  const claimed: OutboxEntry[] = []
+  for (const row of rows) {
+    const result = await db.run(
+      "UPDATE delivery_outbox SET next_attempt_at = ?, updated_at = ? WHERE report_id = ? AND next_attempt_at = ?",
+      [leaseUntil, now.toISOString(), row.report_id, row.next_attempt_at],
+    )
+    if (result.changes === 1) {
+      claimed.push(fromRow(row))
+    }
+  }
+  return claimed
+}
+
+export async function markDeliverySent(reportId: string): Promise<void> {
+  const db = await getDb()
+  const now = new Date().toISOString()
+  await db.run(
+    "UPDATE delivery_outbox SET status = 'sent', attempts = attempts + 1, last_error = NULL, updated_at = ? WHERE report_id = ?",
+    [now, reportId],
+  )
+}
+
+// Record a failed retry and schedule the next one, or give up after MAX_ATTEMPTS
+export async function markDeliveryFailed(entry: OutboxEntry, error: string): Promise<OutboxEntry> {
+  const db = await getDb()
+  const now = new Date()
+  const attempts = entry.attempts + 1
+  const updated: OutboxEntry = {
+    ...entry,
+    attempts,
+    status: attempts >= MAX_ATTEMPTS ? "dead" : "pending",
+    nextAttemptAt: new Date(now.getTime() + backoffDelay(attempts)).toISOString(),
+    lastError: error,
+  }
+
+  await db.run(
+    "UPDATE delivery_outbox SET status = ?, attempts = ?, next_attempt_at = ?, last_error = ?, updated_at = ? WHERE report_id = ?",
+    [updated.status, updated.attempts, updated.nextAttemptAt, updated.lastError, now.toISOString(), entry.reportId],
+  )
+
+  return updated
+}
+
+// Give up on an entry immediately, e.g. when its report no longer exists
+export async function markDeliveryDead(reportId: string, error: string): Promise<void> {
+  const db = await getDb()
+  await db.run(
+    "UPDATE delivery_outbox SET status = 'dead', last_error = ?, updated_at = ? WHERE report_id = ?",
+    [error, new Date().toISOString(), reportId],
+  )
+}
+
+export async function countPendingDeliveries(): Promise<number> {
+  const db = await getDb()
+  const row = await db.get<{ count: number | string }>(
+    "SELECT COUNT(*) AS count FROM delivery_outbox WHERE status = 'pending'",
+  )
+  // Postgres returns COUNT(*) as a string
+  return Number(row?.count ?? 0)
+}
@@ -0,0 +1,105 @@
+// Decode and encode steps shared by the photo resize worker and its main-thread
+// fallback (lib/photo-resize.ts). Nothing here touches the DOM, so it can run
+// inside a worker.
+
+export const MAX_DIMENSION = 1280
+
+// Per photo, so a full set of photos stays under the server's PHOTO_MAX_BYTES
+export const TARGET_PHOTO_BYTES = 600 * 1024
+
+const MAX_QUALITY = 0.9
+const MIN_QUALITY = 0.4
+const QUALITY_SEARCH_STEPS = 4
+
+export interface ImageSize {
+  width: number
+  height: number
+}
+
+// Messages between lib/photo-resize.ts and lib/photo-resize.worker.ts
+export interface ResizeRequest {
+  file: Blob
+  maxBytes: number
+}
+
+export type ResizeMessage =
+  | { type: "progress"; fraction: number }
+  | { type: "done"; blob: Blob }
+  | { type: "error"; message: string }
+
+function jpegSize(bytes: Uint8Array): ImageSize | null {
+  let offset = 2
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null
+    const marker = bytes[offset + 1]
+    // SOF0–SOF15 carry the frame size; C4, C8 and CC are other tables
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+      }
+    }
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3])
+  }
+  return null
+}
+
+// Reads the pixel size from the file header without decoding the image.
+// JPEG frame headers sit after the EXIF block, which can include a thumbnail.
+async function readImageSize(file: Blob): Promise<ImageSize | null> {
+  const bytes = new Uint8Array(await file.slice(0, 256 * 1024).arrayBuffer())
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return jpegSize(bytes)
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    const view = new DataView(bytes.buffer)
+    return { width: view.getUint32(16), height: view.getUint32(20) }
+  }
+  return null
+}
+
+// Decodes at reduced size where the browser supports it, so the full-resolution
+// bitmap is never held in memory. Only the long side is constrained: whether the
+// browser resizes before or after applying EXIF rotation, the aspect ratio is kept
+// and targetSize() enforces the exact bound afterwards.
+export async function decodeBitmap(file: Blob): Promise<ImageBitmap> {
+  const size = await readImageSize(file)
+  const options: ImageBitmapOptions = { imageOrientation: "from-image", resizeQuality: "high" }
+  if (size && Math.max(size.width, size.height) > MAX_DIMENSION) {
+    if (size.width >= size.height) options.resizeWidth = MAX_DIMENSION
+    else options.resizeHeight = MAX_DIMENSION
+  }
+  return createImageBitmap(file, options)
+}
+
+export function targetSize(image: ImageSize): ImageSize {
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(image.width, image.height))
+  return { width: Math.round(image.width * scale), height: Math.round(image.height * scale) }
+}
+
+// Finds the highest JPEG quality that fits the byte budget by bisection. Photos
+// that are small at the top quality are encoded once; the rest take a few more
+// passes. If nothing fits, the lowest quality is used and the server has the
+// final say.
+export async function encodeWithinBudget(
+  encode: (quality: number) => Promise<Blob>,
+  maxBytes: number,
+  onProgress: (fraction: number) => void,
+): Promise<Blob> {
+  const first = await encode(MAX_QUALITY)
+  if (first.size <= maxBytes) return first
+
+  let low = MIN_QUALITY
+  let high = MAX_QUALITY
+  let best: Blob | null = null
+  for (let step = 1; step <= QUALITY_SEARCH_STEPS; step++) {
+    onProgress(step / (QUALITY_SEARCH_STEPS + 1))
+    const quality = (low + high) / 2
+    const blob = await encode(quality)
+    if (blob.size <= maxBytes) {
+      best = blob
+      low = quality
+    } else {
+      high = quality
+    }
+  }
+  return best ?? encode(MIN_QUALITY)
+}
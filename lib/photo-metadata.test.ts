@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest"
+import { readPhotoMetadata } from "./photo-metadata"
+
+type Value = { ascii: string } | { rational: number[] } | { long: number }
+type Ifd = [tag: number, value: Value][]
+
+const ifdSize = (ifd: Ifd) => 2 + ifd.length * 12 + 4
+
+// Little-endian TIFF with the given EXIF and GPS entries, linked from IFD0
+function tiff(exif: Ifd, gps: Ifd): Buffer {
+  // IFD0 holds just the two pointers
+  const exifOffset = 8 + 2 + 2 * 12 + 4
+  const gpsOffset = exifOffset + ifdSize(exif)
+  const ifd0: Ifd = [
+    [0x8769, { long: exifOffset }],
+    [0x8825, { long: gpsOffset }],
+  ]
+  const ifds: [number, Ifd][] = [
+    [8, ifd0],
+    [exifOffset, exif],
+    [gpsOffset, gps],
+  ]
+  const out = Buffer.alloc(1024)
+  out.write("II*\0", 0, "latin1")
+  out.writeUInt32LE(8, 4)
+  let dataOffset = gpsOffset + ifdSize(gps)
+  for (const [offset, entries] of ifds) {
+    out.writeUInt16LE(entries.length, offset)
+    entries.forEach(([tag, value], i) => {
+      const at = offset + 2 + i * 12
+      out.writeUInt16LE(tag, at)
+      if ("long" in value) {
+        out.writeUInt16LE(4, at + 2)
+        out.writeUInt32LE(1, at + 4)
+        out.writeUInt32LE(value.long, at + 8)
+      } else if ("ascii" in value) {
+        const bytes = Buffer.from(`${value.ascii}\0`, "latin1")
+        out.writeUInt16LE(2, at + 2)
+        out.writeUInt32LE(bytes.length, at + 4)
+        if (bytes.length <= 4) {
+          bytes.copy(out, at + 8)
+        } else {
+          out.writeUInt32LE(dataOffset, at + 8)
+          dataOffset += bytes.copy(out, dataOffset)
+        }
+      } else {
+        out.writeUInt16LE(5, at + 2)
+        out.writeUInt32LE(value.rational.length, at + 4)
+        out.writeUInt32LE(dataOffset, at + 8)
+        for (const part of value.rational) {
+          out.writeUInt32LE(Math.round(part * 1000), dataOffset)
+          out.writeUInt32LE(1000, dataOffset + 4)
+          dataOffset += 8
+        }
+      }
+    })
+  }
+  return out.subarray(0, dataOffset)
+}
+
+// A JPEG that is nothing but an EXIF segment. exifr reads Blobs only in
+// browsers, so the tests hand it the bytes, which go through the same parser.
+function photo(exif: Ifd, gps: Ifd = []): Blob {
+  const body = tiff(exif, gps)
+  const length = Buffer.alloc(2)
+  length.writeUInt16BE(2 + 6 + body.length)
+  const bytes = Buffer.concat([
+    Buffer.from([0xff, 0xd8, 0xff, 0xe1]),
+    length,
+    Buffer.from("Exif\0\0", "latin1"),
+    body,
+    Buffer.from([0xff, 0xd9]),
+  ])
+  return new Uint8Array(bytes) as unknown as Blob
+}
+
+// City Hall, 37°46'45.6"N 122°25'9.5"W
+const CITY_HALL: Ifd = [
+  [0x0001, { ascii: "N" }],
+  [0x0002, { rational: [37, 46, 45.6] }],
+  [0x0003, { ascii: "W" }],
+  [0x0004, { rational: [122, 25, 9.5] }],
+]
+
+describe("readPhotoMetadata", () => {
+  it("signs coordinates by hemisphere", async () => {
+    const metadata = await readPhotoMetadata(photo([], CITY_HALL))
+    expect(metadata.lat).toBeCloseTo(37.7793, 4)
+    expect(metadata.lon).toBeCloseTo(-122.4193, 4)
+  })
+
+  it("applies the recorded UTC offset to the capture time", async () => {
+    const metadata = await readPhotoMetadata(
+      photo([
+        [0x9003, { ascii: "2026:03:02 08:15:00" }],
+        [0x9011, { ascii: "-08:00" }],
+      ]),
+    )
+    expect(metadata.takenAt).toBe(Date.parse("2026-03-02T16:15:00.000Z"))
+  })
+
+  it("reads a capture time without offset as local time", async () => {
+    const metadata = await readPhotoMetadata(photo([[0x9003, { ascii: "2026:03:02 08:15:00" }]]))
+    expect(metadata.takenAt).toBe(new Date(2026, 2, 2, 8, 15).getTime())
+  })
+
+  it("leaves out what the photo does not have", async () => {
+    expect(await readPhotoMetadata(photo([[0x9003, { ascii: "0000:00:00 00:00:00" }]]))).toEqual({
+      lat: null,
+      lon: null,
+      takenAt: null,
+    })
+  })
+
+  it("ignores files without EXIF", async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) as unknown as Blob
+    expect(await readPhotoMetadata(png)).toEqual({ lat: null, lon: null, takenAt: null })
+  })
+})
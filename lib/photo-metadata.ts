@@ -0,0 +1,49 @@
+// Client-side EXIF reading. Runs on the original file before it is resized,
+// because canvas re-encoding (and the server) strip all metadata.
+
+export interface PhotoMetadata {
+  lat: number | null
+  lon: number | null
+  takenAt: number | null
+}
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS" in the camera's local time. Cameras that
+// record its UTC offset put it in OffsetTimeOriginal, e.g. "-07:00". Without one
+// the photo is taken to be from the browser's time zone, i.e. from nearby.
+function parseTakenAt(dateTime: unknown, offset: unknown): number | null {
+  const match = typeof dateTime === "string" && /^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})/.exec(dateTime)
+  if (!match) return null
+  const zone = typeof offset === "string" && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : ""
+  const time = Date.parse(`${match[1]}-${match[2]}-${match[3]}T${match[4]}${zone}`)
+  return Number.isNaN(time) ? null : time
+}
+
+export async function readPhotoMetadata(file: Blob): Promise<PhotoMetadata> {
+  try {
+    const exifr = await import("exifr")
+    // The Ref tags carry the hemisphere; without them every longitude in San
+    // Francisco comes out east of Greenwich. Values are left as read so the
+    // date is not revived in the wrong time zone.
+    const tags = await exifr.parse(file, {
+      gps: true,
+      reviveValues: false,
+      pick: [
+        "DateTimeOriginal",
+        "OffsetTimeOriginal",
+        "GPSLatitude",
+        "GPSLatitudeRef",
+        "GPSLongitude",
+        "GPSLongitudeRef",
+      ],
+    })
+    const hasGps = typeof tags?.latitude === "number" && typeof tags?.longitude === "number"
+    return {
+      lat: hasGps ? tags.latitude : null,
+      lon: hasGps ? tags.longitude : null,
+      takenAt: parseTakenAt(tags?.DateTimeOriginal, tags?.OffsetTimeOriginal),
+    }
+  } catch {
+    // Missing or malformed EXIF is normal (screenshots, edited images)
+    return { lat: null, lon: null, takenAt: null }
+  }
+}
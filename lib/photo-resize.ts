@@ -0,0 +1,136 @@
+// Client-side photo decoding and downscaling. Browsers differ in what they can
+// decode: HEIC only decodes natively in Safari, and a 48MP image decoded at
+// full size can exhaust memory on mid-range phones. Every photo is normalised
+// to a JPEG of at most MAX_DIMENSION on its long side, upright per its EXIF
+// orientation, at the highest quality that fits the byte budget.
+//
+// The work runs in lib/photo-resize.worker.ts so low-end phones stay responsive.
+// Browsers without workers or OffscreenCanvas use the same steps on the main thread.
+
+import { decodeBitmap, encodeWithinBudget, targetSize, TARGET_PHOTO_BYTES, type ResizeMessage } from "@/lib/photo-encode"
+
+// Originals above this are refused before any decoding starts
+export const MAX_SOURCE_BYTES = 50 * 1024 * 1024
+
+// Major brands in the `ftyp` box of HEIC/HEIF files
+const HEIF_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"]
+
+// Thrown with a message that can be shown to the reporter as is
+export class PhotoDecodeError extends Error {}
+
+// Reports 0–1 for the photo currently being resized
+export type ResizeProgress = (fraction: number) => void
+
+// HEIC files often arrive with an empty or generic MIME type, so the header is checked too
+export async function isHeif(file: Blob): Promise<boolean> {
+  if (/^image\/hei[cf]/.test(file.type)) return true
+  const header = new Uint8Array(await file.slice(0, 12).arrayBuffer())
+  const box = String.fromCharCode(...Array.from(header.subarray(4, 12)))
+  return box.startsWith("ftyp") && HEIF_BRANDS.includes(box.slice(4))
+}
+
+function canUseWorker(): boolean {
+  return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined"
+}
+
+function resizeInWorker(file: Blob, onProgress: ResizeProgress): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./photo-resize.worker.ts", import.meta.url))
+    worker.onmessage = (event: MessageEvent<ResizeMessage>) => {
+      const message = event.data
+      if (message.type === "progress") {
+        onProgress(message.fraction)
+        return
+      }
+      worker.terminate()
+      if (message.type === "done") resolve(message.blob)
+      else reject(new Error(message.message))
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message || "Photo worker failed"))
+    }
+    worker.postMessage({ file, maxBytes: TARGET_PHOTO_BYTES })
+  })
+}
+
+function loadImageElement(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const img = new Image()
+    img.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(img)
+    }
+    img.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error("Could not decode image"))
+    }
+    img.src = url
+  })
+}
+
+async function resizeOnMainThread(file: Blob, onProgress: ResizeProgress): Promise<Blob> {
+  let image: ImageBitmap | HTMLImageElement
+  try {
+    image = await decodeBitmap(file)
+  } catch {
+    // Older Safari rejects the options bag. <img> applies EXIF orientation by
+    // default (CSS image-orientation: from-image), but decodes at full size.
+    image = await loadImageElement(file)
+  }
+
+  const size = targetSize(image)
+  const canvas = document.createElement("canvas")
+  canvas.width = size.width
+  canvas.height = size.height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) {
+    throw new Error("Could not get canvas context")
+  }
+  ctx.drawImage(image, 0, 0, size.width, size.height)
+  if ("close" in image) image.close()
+  onProgress(0.4)
+
+  return encodeWithinBudget(
+    (quality) =>
+      new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode image"))), "image/jpeg", quality),
+      ),
+    TARGET_PHOTO_BYTES,
+    (fraction) => onProgress(0.4 + fraction * 0.6),
+  )
+}
+
+// A worker that fails for any reason gets a second chance on the main thread,
+// where the <img> fallback can decode formats createImageBitmap rejects
+function resizeDecodable(file: Blob, onProgress: ResizeProgress): Promise<Blob> {
+  if (!canUseWorker()) return resizeOnMainThread(file, onProgress)
+  return resizeInWorker(file, onProgress).catch(() => resizeOnMainThread(file, onProgress))
+}
+
+async function convertHeif(file: Blob): Promise<Blob> {
+  try {
+    const { default: heic2any } = await import("heic2any")
+    const converted = await heic2any({ blob: file, toType: "image/jpeg", quality: 0.92 })
+    return Array.isArray(converted) ? converted[0] : converted
+  } catch {
+    throw new PhotoDecodeError(
+      "This HEIC photo couldn't be converted on this device. Please choose a JPEG, or set the camera format to \"Most Compatible\".",
+    )
+  }
+}
+
+export async function resizePhoto(file: Blob, onProgress: ResizeProgress = () => {}): Promise<Blob> {
+  try {
+    return await resizeDecodable(file, onProgress)
+  } catch {
+    // Safari decodes HEIC natively; everywhere else it goes through libheif,
+    // which needs the DOM and so cannot run in the worker
+    if (!(await isHeif(file))) {
+      throw new PhotoDecodeError("This image format isn't supported. Please choose a JPEG, PNG or HEIC photo.")
+    }
+    onProgress(0)
+    return resizeDecodable(await convertHeif(file), onProgress)
+  }
+}
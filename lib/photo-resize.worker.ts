@@ -0,0 +1,36 @@
+// Resizes one photo off the main thread with OffscreenCanvas. Started by
+// lib/photo-resize.ts, which falls back to the main thread when workers or
+// OffscreenCanvas are unavailable.
+
+import { decodeBitmap, encodeWithinBudget, targetSize, type ResizeMessage, type ResizeRequest } from "@/lib/photo-encode"
+
+const scope = self as unknown as Worker
+
+function reply(message: ResizeMessage) {
+  scope.postMessage(message)
+}
+
+scope.onmessage = async (event: MessageEvent<ResizeRequest>) => {
+  const { file, maxBytes } = event.data
+  try {
+    const bitmap = await decodeBitmap(file)
+    const size = targetSize(bitmap)
+    const canvas = new OffscreenCanvas(size.width, size.height)
+    const ctx = canvas.getContext("2d")
+    if (!ctx) {
+      throw new Error("Could not get canvas context")
+    }
+    ctx.drawImage(bitmap, 0, 0, size.width, size.height)
+    bitmap.close()
+    reply({ type: "progress", fraction: 0.4 })
+
+    const blob = await encodeWithinBudget(
+      (quality) => canvas.convertToBlob({ type: "image/jpeg", quality }),
+      maxBytes,
+      (fraction) => reply({ type: "progress", fraction: 0.4 + fraction * 0.6 }),
+    )
+    reply({ type: "done", blob })
+  } catch (err) {
+    reply({ type: "error", message: err instanceof Error ? err.message : "Could not resize image" })
+  }
+}
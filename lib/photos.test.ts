@@ -0,0 +1,69 @@
+import { mkdtemp, readdir, rm } from "fs/promises"
+import { tmpdir } from "os"
+import path from "path"
+import { describe, expect, it } from "vitest"
+import { ApiError } from "./errors"
+import {
+  createDatabasePhotoStore,
+  createLocalPhotoStore,
+  decodeDataUrl,
+  readPhoto,
+  savePhoto,
+  setPhotoStore,
+} from "./photos"
+
+const bytes = Buffer.from([0xff, 0xd8, 0xff, 0xe0])
+
+describe("decodeDataUrl", () => {
+  it("decodes base64 data URLs", () => {
+    expect(decodeDataUrl(`data:image/jpeg;base64,${bytes.toString("base64")}`)).toEqual({
+      contentType: "image/jpeg",
+      bytes,
+    })
+  })
+
+  it("accepts parameters before ;base64", () => {
+    const decoded = decodeDataUrl(`data:image/jpeg;name=photo.jpg;base64,${bytes.toString("base64")}`)
+    expect(decoded).toEqual({ contentType: "image/jpeg", bytes })
+  })
+
+  it("defaults the content type", () => {
+    expect(decodeDataUrl(`data:;base64,${bytes.toString("base64")}`).contentType).toBe("application/octet-stream")
+  })
+
+  it.each(["data:image/jpeg,abc", "data:image/jpeg;base64;charset=x,abc", "image/jpeg;base64,abc", ""])(
+    "rejects %j as an invalid photo",
+    (dataUrl) => {
+      expect(() => decodeDataUrl(dataUrl)).toThrow(ApiError)
+      expect(() => decodeDataUrl(dataUrl)).toThrow(expect.objectContaining({ code: "invalid_photo", status: 400 }))
+    },
+  )
+})
+
+describe("photo stores", () => {
+  it("keep photos in a local directory", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "photos-"))
+    try {
+      setPhotoStore(createLocalPhotoStore(dir))
+      const ref = await savePhoto("report-1", bytes)
+      expect(ref).toBe("report-1.jpg")
+      expect(await readdir(dir)).toEqual(["report-1.jpg"])
+      expect(await readPhoto(ref)).toEqual(bytes)
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it("keep photos in the database", async () => {
+    setPhotoStore(createDatabasePhotoStore())
+    const ref = await savePhoto("report-2", bytes, "webp")
+    expect(ref).toBe("report-2.webp")
+    expect(await readPhoto(ref)).toEqual(bytes)
+    await expect(readPhoto("missing.jpg")).rejects.toThrow("Photo not found")
+  })
+
+  it("reject references outside the store", async () => {
+    setPhotoStore(createDatabasePhotoStore())
+    await expect(readPhoto("../reports.db")).rejects.toThrow("Invalid photo reference")
+  })
+})
@@ -0,0 +1,95 @@
+import { mkdir, readFile, writeFile } from "fs/promises"
+import path from "path"
+import { getDb } from "@/lib/db"
+import { ApiError } from "@/lib/errors"
+
+// Photo storage. References are names like `<id>.jpg`, independent of the
+// backend, so they stay valid if the directory is moved or the store changes.
+
+export interface PhotoStore {
+  save(ref: string, bytes: Buffer): Promise<void>
+  read(ref: string): Promise<Buffer>
+}
+
+// Files in `dir`, for development and servers with a persistent disk
+export function createLocalPhotoStore(dir: string): PhotoStore {
+  return {
+    async save(ref, bytes) {
+      await mkdir(dir, { recursive: true })
+      await writeFile(path.join(dir, ref), bytes)
+    },
+    async read(ref) {
+      return readFile(path.join(dir, ref))
+    },
+  }
+}
+
+// Rows in the report database, for hosts without a writable disk such as Vercel.
+// Stored as base64 text, which both databases handle the same way.
+export function createDatabasePhotoStore(): PhotoStore {
+  return {
+    async save(ref, bytes) {
+      const db = await getDb()
+      await db.run("INSERT INTO photo_blobs (ref, data, created_at) VALUES (?, ?, ?)", [
+        ref,
+        bytes.toString("base64"),
+        new Date().toISOString(),
+      ])
+    },
+    async read(ref) {
+      const db = await getDb()
+      const row = await db.get<{ data: string }>("SELECT data FROM photo_blobs WHERE ref = ?", [ref])
+      if (!row) throw new Error(`Photo not found: ${ref}`)
+      return Buffer.from(row.data, "base64")
+    },
+  }
+}
+
+let store: PhotoStore | null = null
+
+// PHOTO_STORE=local|database. Without it, photos go wherever the reports can
+// always be written: the database on Postgres or on Vercel, else the local disk.
+function getStore(): PhotoStore {
+  if (!store) {
+    const onPostgres = /^postgres(ql)?:\/\//.test(process.env.DATABASE_URL || "")
+    const backend = process.env.PHOTO_STORE || (onPostgres || process.env.VERCEL ? "database" : "local")
+    if (backend === "local" && process.env.VERCEL) {
+      // The deployment's filesystem is read-only, so every upload would fail
+      throw new Error("PHOTO_STORE=local does not work on Vercel. Use PHOTO_STORE=database or setPhotoStore().")
+    }
+    store =
+      backend === "database"
+        ? createDatabasePhotoStore()
+        : createLocalPhotoStore(process.env.PHOTO_STORAGE_DIR || "./data/photos")
+  }
+  return store
+}
+
+// Plug in another backend (e.g. object storage) at startup
+export function setPhotoStore(custom: PhotoStore) {
+  store = custom
+}
+
+// `data:[<media type>][;<parameter>=<value>]*;base64,<data>` (RFC 2397)
+export function decodeDataUrl(dataUrl: string): { contentType: string; bytes: Buffer } {
+  const match = /^data:([^,]*),([\s\S]*)$/.exec(dataUrl)
+  const [mediaType, ...parameters] = match ? match[1].split(";") : []
+  if (!match || parameters[parameters.length - 1] !== "base64") {
+    throw new ApiError("invalid_photo", "Each photo must be a base64 data URL.")
+  }
+  return { contentType: mediaType || "application/octet-stream", bytes: Buffer.from(match[2], "base64") }
+}
+
+export async function savePhoto(id: string, bytes: Buffer, extension = "jpg"): Promise<string> {
+  const ref = `${id}.${extension}`
+  await getStore().save(ref, bytes)
+  return ref
+}
+
+export async function readPhoto(ref: string): Promise<Buffer> {
+  // Refs are generated by savePhoto; reject anything that could escape the directory
+  if (ref !== path.basename(ref)) {
+    throw new Error(`Invalid photo reference: ${ref}`)
+  }
+  return getStore().read(ref)
+}
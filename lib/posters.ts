@@ -0,0 +1,120 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib"
+import QRCode from "qrcode"
+import type { Asset } from "@/lib/assets"
+
+// Printable QR posters for registered assets, as SVG (one poster) or PDF (one
+// page per asset). Both are drawn from the same layout on a US Letter page, in
+// points with the origin at the top left, so they print identically.
+
+const PAGE = { width: 612, height: 792 }
+const QR = { top: 170, size: 340 }
+// Light modules around the code that scanners need to find it
+const QUIET_ZONE_MODULES = 4
+
+const INSTRUCTIONS = [
+  "1. Point your phone camera at the code",
+  "2. Add a photo and a short description",
+  "3. Send — no app or account needed",
+]
+
+interface PosterText {
+  text: string
+  y: number
+  size: number
+  bold?: boolean
+}
+
+export interface PosterUrls {
+  // Encoded in the QR code. Goes through the /report entry route, so the landing
+  // page can move without reprinting stickers.
+  scan: string
+  // Printed under the code for people who type it in instead
+  short: string
+}
+
+export function posterUrls(baseUrl: string, code: string): PosterUrls {
+  const base = baseUrl.replace(/\/+$/, "")
+  return {
+    scan: `${base}/report?code=${encodeURIComponent(code)}`,
+    short: `${base.replace(/^https?:\/\//, "")}/q/${encodeURIComponent(code)}`,
+  }
+}
+
+function posterText(asset: Asset, urls: PosterUrls): PosterText[] {
+  return [
+    { text: "Report Litter Here", y: 90, size: 40, bold: true },
+    { text: "Garbage, dumping or an overflowing bin?", y: 132, size: 18 },
+    { text: urls.short, y: 548, size: 20, bold: true },
+    ...INSTRUCTIONS.map((text, index) => ({ text, y: 600 + index * 28, size: 16 })),
+    { text: [`Code ${asset.code}`, asset.label].filter(Boolean).join(" · "), y: 740, size: 11 },
+  ]
+}
+
+// One path covering every dark module, in module units with the quiet zone included
+function qrPath(url: string): { path: string; modules: number } {
+  const matrix = QRCode.create(url, { errorCorrectionLevel: "M" }).modules
+  const parts: string[] = []
+  for (let row = 0; row < matrix.size; row++) {
+    for (let col = 0; col < matrix.size; col++) {
+      if (matrix.get(row, col)) {
+        parts.push(`M${col + QUIET_ZONE_MODULES} ${row + QUIET_ZONE_MODULES}h1v1h-1z`)
+      }
+    }
+  }
+  return { path: parts.join(""), modules: matrix.size + QUIET_ZONE_MODULES * 2 }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+export function renderPosterSvg(asset: Asset, urls: PosterUrls): string {
+  const qr = qrPath(urls.scan)
+  const scale = QR.size / qr.modules
+  const left = (PAGE.width - QR.size) / 2
+  const text = posterText(asset, urls)
+    .map(
+      (line) =>
+        `<text x="${PAGE.width / 2}" y="${line.y}" font-size="${line.size}"${line.bold ? ' font-weight="bold"' : ""} text-anchor="middle">${escapeXml(line.text)}</text>`,
+    )
+    .join("\n  ")
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="8.5in" height="11in" viewBox="0 0 ${PAGE.width} ${PAGE.height}" font-family="Helvetica, Arial, sans-serif">
+  <rect width="100%" height="100%" fill="#fff"/>
+  <path d="${qr.path}" transform="translate(${left} ${QR.top}) scale(${scale})" fill="#000" shape-rendering="crispEdges"/>
+  ${text}
+</svg>
+`
+}
+
+function drawCentered(page: PDFPage, line: PosterText, font: PDFFont) {
+  // The standard PDF fonts only cover WinAnsi; anything else is replaced
+  const text = line.text.replace(/[^\x20-\x7e\xa0-\xff\u2014]/g, "?")
+  const width = font.widthOfTextAtSize(text, line.size)
+  page.drawText(text, { x: (PAGE.width - width) / 2, y: PAGE.height - line.y, size: line.size, font })
+}
+
+export async function renderPostersPdf(posters: { asset: Asset; urls: PosterUrls }[]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle("QR Reporter posters")
+  const regular = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+  for (const { asset, urls } of posters) {
+    const page = pdf.addPage([PAGE.width, PAGE.height])
+    const qr = qrPath(urls.scan)
+    // drawSvgPath places the path's origin at (x, y) and keeps SVG's downward y axis
+    page.drawSvgPath(qr.path, {
+      x: (PAGE.width - QR.size) / 2,
+      y: PAGE.height - QR.top,
+      scale: QR.size / qr.modules,
+      color: rgb(0, 0, 0),
+    })
+    for (const line of posterText(asset, urls)) {
+      drawCentered(page, line, line.bold ? bold : regular)
+    }
+  }
+
+  return pdf.save()
+}
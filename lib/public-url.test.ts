@@ -0,0 +1,30 @@
+import type { NextRequest } from "next/server"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { publicBaseUrl } from "./public-url"
+
+// Host header set by the client
+const request = { nextUrl: new URL("https://phish.example/api/auth/magic-link") } as NextRequest
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("publicBaseUrl", () => {
+  it("uses PUBLIC_BASE_URL over the request origin", () => {
+    vi.stubEnv("PUBLIC_BASE_URL", "https://report.example.org/")
+    vi.stubEnv("NODE_ENV", "production")
+    expect(publicBaseUrl(request)).toBe("https://report.example.org")
+  })
+
+  it("never falls back to the request origin in production", () => {
+    vi.stubEnv("PUBLIC_BASE_URL", "")
+    vi.stubEnv("NODE_ENV", "production")
+    expect(publicBaseUrl(request)).toBeNull()
+  })
+
+  it("falls back to the request origin outside production", () => {
+    vi.stubEnv("PUBLIC_BASE_URL", "")
+    vi.stubEnv("NODE_ENV", "development")
+    expect(publicBaseUrl(request)).toBe("https://phish.example")
+  })
+})
@@ -0,0 +1,10 @@
+import type { NextRequest } from "next/server"
+
+// Origin for links that leave the app: sign-in links, the SSO redirect URI and
+// QR posters. The request origin comes from the Host header, which a client can
+// forge, so production only trusts PUBLIC_BASE_URL and returns null without it.
+export function publicBaseUrl(request: NextRequest): string | null {
+  const configured = process.env.PUBLIC_BASE_URL
+  if (configured) return configured.replace(/\/+$/, "")
+  return process.env.NODE_ENV !== "production" ? request.nextUrl.origin : null
+}
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+  checkRateLimits,
+  clientIp,
+  createDatabaseRateLimitStore,
+  createMemoryRateLimitStore,
+  setRateLimitStore,
+  type RateLimitRule,
+} from "./rate-limit"
+
+const MINUTE = 60_000
+const rule: RateLimitRule = { name: "test", limit: 3, windowMs: 10 * MINUTE }
+const start = Date.parse("2026-03-02T12:00:00.000Z")
+
+describe("checkRateLimits", () => {
+  it("allows `limit` hits inside the window, then rejects", async () => {
+    const checks = [{ rule, value: "fills-up" }]
+    for (let i = 0; i < 3; i++) {
+      expect(await checkRateLimits(checks, start + i * MINUTE)).toEqual({ allowed: true })
+    }
+    expect(await checkRateLimits(checks, start + 3 * MINUTE)).toEqual({
+      allowed: false,
+      rule: "test",
+      retryAfterSeconds: 7 * 60,
+    })
+  })
+
+  it("slides: a hit stops counting once windowMs have passed", async () => {
+    const checks = [{ rule, value: "slides" }]
+    for (let i = 0; i < 3; i++) {
+      await checkRateLimits(checks, start + i * MINUTE)
+    }
+    expect((await checkRateLimits(checks, start + 10 * MINUTE - 1)).allowed).toBe(false)
+    expect((await checkRateLimits(checks, start + 10 * MINUTE + 1)).allowed).toBe(true)
+    expect((await checkRateLimits(checks, start + 10 * MINUTE + 2)).allowed).toBe(false)
+  })
+
+  it("does not count rejected requests", async () => {
+    const checks = [{ rule, value: "rejected" }]
+    for (let i = 0; i < 3; i++) {
+      await checkRateLimits(checks, start)
+    }
+    for (let i = 1; i < 10; i++) {
+      expect((await checkRateLimits(checks, start + i * MINUTE)).allowed).toBe(false)
+    }
+    expect((await checkRateLimits(checks, start + 10 * MINUTE + 1)).allowed).toBe(true)
+  })
+
+  it("records a hit against every rule only when all of them pass", async () => {
+    const strict: RateLimitRule = { name: "strict", limit: 1, windowMs: 10 * MINUTE }
+    const checks = [
+      { rule, value: "shared" },
+      { rule: strict, value: "shared" },
+    ]
+    expect((await checkRateLimits(checks, start)).allowed).toBe(true)
+    expect(await checkRateLimits(checks, start)).toMatchObject({ allowed: false, rule: "strict" })
+    expect(await checkRateLimits(checks, start)).toMatchObject({ allowed: false, rule: "strict" })
+    // Only the first request counted against the looser rule
+    expect((await checkRateLimits([{ rule, value: "shared" }], start)).allowed).toBe(true)
+    expect((await checkRateLimits([{ rule, value: "shared" }], start)).allowed).toBe(true)
+    expect((await checkRateLimits([{ rule, value: "shared" }], start)).allowed).toBe(false)
+  })
+})
+
+describe("concurrent requests", () => {
+  afterEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore())
+  })
+
+  const parallel = (value: string) =>
+    Promise.all(Array.from({ length: 8 }, () => checkRateLimits([{ rule, value }], start)))
+
+  it("let exactly `limit` through with the memory store", async () => {
+    setRateLimitStore(createMemoryRateLimitStore())
+    const results = await parallel("parallel-memory")
+    expect(results.filter((result) => result.allowed)).toHaveLength(3)
+  })
+
+  it("never let more than `limit` through with the database store", async () => {
+    setRateLimitStore(createDatabaseRateLimitStore())
+    const results = await parallel("parallel-database")
+    expect(results.filter((result) => result.allowed).length).toBeLessThanOrEqual(3)
+    // Rejected requests took their hits back
+    const remaining = 3 - results.filter((result) => result.allowed).length
+    for (let i = 0; i < remaining; i++) {
+      expect((await checkRateLimits([{ rule, value: "parallel-database" }], start)).allowed).toBe(true)
+    }
+    expect((await checkRateLimits([{ rule, value: "parallel-database" }], start)).allowed).toBe(false)
+  })
+})
+
+describe("clientIp", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("takes the entry the platform's proxy appended", () => {
+    const headers = new Headers({ "x-forwarded-for": "1.2.3.4, 203.0.113.7" })
+    expect(clientIp(headers)).toBe("203.0.113.7")
+  })
+
+  it("ignores spaces around entries", () => {
+    expect(clientIp(new Headers({ "x-forwarded-for": " 203.0.113.7 " }))).toBe("203.0.113.7")
+  })
+
+  it("counts TRUSTED_PROXY_HOPS entries from the right", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "2")
+    const headers = new Headers({ "x-forwarded-for": "1.2.3.4, 203.0.113.7, 10.0.0.2" })
+    expect(clientIp(headers)).toBe("203.0.113.7")
+  })
+
+  it("is null for requests that did not come through the proxies", () => {
+    expect(clientIp(new Headers())).toBeNull()
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "2")
+    expect(clientIp(new Headers({ "x-forwarded-for": "203.0.113.7" }))).toBeNull()
+  })
+})
@@ -0,0 +1,187 @@
+import { createHash } from "crypto"
+import { getDb } from "@/lib/db"
+
+// Sliding-window rate limiting. Each rule keeps a log of hit timestamps per key
+// and rejects once more than `limit` hits fall inside the trailing window.
+
+export interface RateLimitStore {
+  // Records hit `id` for `key` at `at`, then returns the timestamps (ms) recorded
+  // for `key` at or after `since`, the new one included, oldest first. Recording
+  // before counting means concurrent requests always see each other's hits.
+  hit(key: string, id: string, at: number, since: number): Promise<number[]>
+  // Takes a recorded hit back
+  remove(key: string, id: string): Promise<void>
+  prune(before: number): Promise<void>
+}
+
+export interface RateLimitRule {
+  name: string
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  rule?: string
+  retryAfterSeconds?: number
+}
+
+export const RATE_LIMIT_RULES = {
+  ip: { name: "ip", limit: 10, windowMs: 10 * 60_000 },
+  device: { name: "device", limit: 5, windowMs: 10 * 60_000 },
+  cell: { name: "cell", limit: 15, windowMs: 60 * 60_000 },
+  // Staff sign-in links, per address and per IP
+  loginEmail: { name: "login_email", limit: 5, windowMs: 15 * 60_000 },
+  loginIp: { name: "login_ip", limit: 20, windowMs: 15 * 60_000 },
+  // "Already reported nearby" lookups before submitting, per IP
+  nearbyIp: { name: "nearby_ip", limit: 30, windowMs: 10 * 60_000 },
+  // "Still there" confirmations: per device and IP, and once a day per report and device
+  confirmDevice: { name: "confirm_device", limit: 10, windowMs: 24 * 60 * 60_000 },
+  confirmIp: { name: "confirm_ip", limit: 30, windowMs: 60 * 60_000 },
+  confirmReport: { name: "confirm_report", limit: 1, windowMs: 24 * 60 * 60_000 },
+} satisfies Record<string, RateLimitRule>
+
+const LONGEST_WINDOW_MS = Math.max(...Object.values(RATE_LIMIT_RULES).map((rule) => rule.windowMs))
+
+// In-memory backend, suitable for development and single-instance deployments
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const log = new Map<string, { id: string; at: number }[]>()
+  return {
+    async hit(key, id, at, since) {
+      const entries = log.get(key) ?? []
+      entries.push({ id, at })
+      log.set(key, entries)
+      return entries
+        .filter((entry) => entry.at >= since)
+        .map((entry) => entry.at)
+        .sort((a, b) => a - b)
+    },
+    async remove(key, id) {
+      const entries = (log.get(key) ?? []).filter((entry) => entry.id !== id)
+      if (entries.length === 0) {
+        log.delete(key)
+      } else {
+        log.set(key, entries)
+      }
+    },
+    async prune(before) {
+      for (const [key, entries] of log.entries()) {
+        const kept = entries.filter((entry) => entry.at >= before)
+        if (kept.length === 0) {
+          log.delete(key)
+        } else {
+          log.set(key, kept)
+        }
+      }
+    },
+  }
+}
+
+// Shared backend on the report database, so every instance sees the same counts.
+// The insert commits before the count, so of two instances racing for the last
+// hit at least one sees the other's.
+export function createDatabaseRateLimitStore(): RateLimitStore {
+  return {
+    async hit(key, id, at, since) {
+      const db = await getDb()
+      await db.run("INSERT INTO rate_limit_hits (key, hit_at, id) VALUES (?, ?, ?)", [
+        key,
+        new Date(at).toISOString(),
+        id,
+      ])
+      const rows = await db.all<{ hit_at: string }>(
+        "SELECT hit_at FROM rate_limit_hits WHERE key = ? AND hit_at >= ? ORDER BY hit_at",
+        [key, new Date(since).toISOString()],
+      )
+      return rows.map((row) => Date.parse(row.hit_at))
+    },
+    async remove(key, id) {
+      const db = await getDb()
+      await db.run("DELETE FROM rate_limit_hits WHERE key = ? AND id = ?", [key, id])
+    },
+    async prune(before) {
+      const db = await getDb()
+      await db.run("DELETE FROM rate_limit_hits WHERE hit_at < ?", [new Date(before).toISOString()])
+    },
+  }
+}
+
+let store: RateLimitStore | null = null
+
+function getStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.RATE_LIMIT_STORE === "database" ? createDatabaseRateLimitStore() : createMemoryRateLimitStore()
+  }
+  return store
+}
+
+// Plug in another shared backend (e.g. Redis) at startup
+export function setRateLimitStore(custom: RateLimitStore) {
+  store = custom
+}
+
+// Keys are hashed so raw IPs and device IDs never reach the store
+function hashKey(rule: string, value: string): string {
+  return `${rule}:${createHash("sha256").update(value).digest("hex").slice(0, 32)}`
+}
+
+// The client address as recorded by our own proxies. Each of the
+// TRUSTED_PROXY_HOPS (default 1, the platform's edge) appends the address it
+// received the request from to X-Forwarded-For, so that entry counted from the
+// right is the client. Anything further left was sent by the client itself.
+// Null when the request did not come through the proxies.
+export function clientIp(headers: Headers): string | null {
+  const hops = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1)
+  const forwarded = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  return forwarded.length >= hops ? forwarded[forwarded.length - hops] : null
+}
+
+export function clientFingerprint(deviceId: string | undefined, headers: Headers): string {
+  return [deviceId ?? "", headers.get("user-agent") ?? "", headers.get("accept-language") ?? ""].join("|")
+}
+
+// Roughly 110m cells, so a single spot cannot be flooded from many devices
+export function locationCell(lat: number, lon: number): string {
+  return `${lat.toFixed(3)},${lon.toFixed(3)}`
+}
+
+// Records a hit against every rule and counts it. When any rule is over its
+// limit, the hits are taken back again, so requests turned away here do not
+// extend the window. Requests that pass count even if the caller rejects them
+// later for another reason.
+export async function checkRateLimits(
+  checks: { rule: RateLimitRule; value: string }[],
+  now = Date.now(),
+): Promise<RateLimitResult> {
+  const rateLimitStore = getStore()
+  const id = crypto.randomUUID()
+  const recorded: string[] = []
+
+  for (const { rule, value } of checks) {
+    const key = hashKey(rule.name, value)
+    const hits = await rateLimitStore.hit(key, id, now, now - rule.windowMs)
+    recorded.push(key)
+    if (hits.length > rule.limit) {
+      for (const recordedKey of recorded) {
+        await rateLimitStore.remove(recordedKey, id)
+      }
+      // This request's hit is the newest; the one `limit` before it has to leave the window
+      const oldestInWindow = hits[hits.length - 1 - rule.limit]
+      return {
+        allowed: false,
+        rule: rule.name,
+        retryAfterSeconds: Math.max(1, Math.ceil((oldestInWindow + rule.windowMs - now) / 1000)),
+      }
+    }
+  }
+
+  // Clean up old entries periodically
+  if (Math.random() < 0.01) {
+    await rateLimitStore.prune(now - LONGEST_WINDOW_MS)
+  }
+
+  return { allowed: true }
+}
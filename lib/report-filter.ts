@@ -0,0 +1,22 @@
+import { z } from "zod"
+import { reportScope } from "@/lib/auth/guard"
+import type { StaffUser } from "@/lib/auth/staff"
+import { REPORT_STATUSES } from "@/lib/report-types"
+import type { ReportFilter } from "@/lib/reports"
+
+// Query parameters shared by the admin report list and map
+export const reportFilterSchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  department: z.string().optional(),
+  neighborhood: z.string().optional(),
+  status: z.enum(REPORT_STATUSES).optional(),
+  q: z.string().trim().min(1).optional(),
+})
+
+export type ReportFilterQuery = z.infer<typeof reportFilterSchema>
+
+// Department admins only ever see their own department, whatever they ask for
+export function toReportFilter({ department, q, ...rest }: ReportFilterQuery, staff: StaffUser): ReportFilter {
+  return { ...rest, departmentId: reportScope(staff) ?? department, query: q }
+}
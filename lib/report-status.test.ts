@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+import { toPublicReport } from "./report-status"
+import type { Report } from "./reports"
+
+const report: Report = {
+  id: "d2f1c0de-0000-4000-8000-000000000001",
+  reportNumber: "7K4M-2QXD",
+  status: "delivery_pending",
+  correlationId: "c0ffee00-0000-4000-8000-000000000001",
+  clientNonce: "n0nce000-0000-4000-8000-000000000001",
+  lat: 37.789312,
+  lon: -122.401187,
+  accuracy: 8,
+  locationSource: "gps",
+  observedAt: "2026-03-02T16:10:00.000Z",
+  message: "Mattress on the sidewalk outside my building",
+  departmentId: null,
+  recipientEmail: "dispatch@example.gov",
+  assetId: null,
+  duplicateOf: null,
+  photoRefs: ["d2f1c0de-1.jpg"],
+  deliveryReference: null,
+  confirmationCount: 0,
+  lastConfirmedAt: null,
+  supervisorDistrict: "3",
+  neighborhood: "Financial District/South Beach",
+  policeDistrict: "Central",
+  nearestAddress: "12 Market St",
+  crossStreet: "2nd St",
+  createdAt: "2026-03-02T16:15:00.000Z",
+  updatedAt: "2026-03-02T16:16:00.000Z",
+}
+
+describe("toPublicReport", () => {
+  it("places the report by street and neighborhood only", () => {
+    const view = toPublicReport(report)!
+    expect(view.approximateLocation).toBe("Market St & 2nd St")
+    expect(view.neighborhood).toBe("Financial District/South Beach")
+    const shown = JSON.stringify(view)
+    for (const hidden of ["37.78", "-122.40", "12 Market", "Mattress", "d2f1c0de", "dispatch@"]) {
+      expect(shown).not.toContain(hidden)
+    }
+  })
+
+  it("reports internal delivery states as received", () => {
+    expect(toPublicReport(report)!.status).toBe("received")
+  })
+
+  it("follows the report a duplicate was added to", () => {
+    const original: Report = { ...report, id: "original", reportNumber: "ABCD-EFGH", status: "acknowledged" }
+    const view = toPublicReport({ ...report, status: "duplicate", duplicateOf: "original" }, original)!
+    expect(view).toMatchObject({ reportNumber: "7K4M-2QXD", status: "acknowledged", duplicateOf: "ABCD-EFGH" })
+  })
+
+  it("has no page for reports without a number", () => {
+    expect(toPublicReport({ ...report, reportNumber: null })).toBeNull()
+  })
+})
@@ -0,0 +1,73 @@
+import { getDepartment } from "@/lib/departments"
+import type { Report } from "@/lib/reports"
+
+// What the public /r/[id] status page may show about a report. Anyone holding
+// the report number can open it, so it carries no message, photos or device data.
+//
+// Location policy for every public view of a report, including the "already
+// reported" lookup: it is placed by street, cross street and neighborhood only.
+// Nothing derived from its coordinates is shown, neither rounded positions nor
+// distances, because a few such answers from different spots pin it down.
+
+export type PublicReportStatus = "received" | "delivered" | "acknowledged" | "resolved"
+
+export const PUBLIC_STATUS_STEPS: { status: PublicReportStatus; label: string; description: string }[] = [
+  { status: "received", label: "Received", description: "Your report has been stored." },
+  { status: "delivered", label: "Delivered", description: "The report was sent to the department." },
+  { status: "acknowledged", label: "Acknowledged", description: "The department has seen the report." },
+  { status: "resolved", label: "Resolved", description: "The department marked the issue as resolved." },
+]
+
+export interface PublicReport {
+  reportNumber: string
+  status: PublicReportStatus
+  createdAt: string
+  updatedAt: string
+  department: string | null
+  neighborhood: string | null
+  // Street names only, e.g. "Market St & 2nd St"; house numbers are dropped
+  approximateLocation: string | null
+  // Number of the earlier report this one was added to as a duplicate, whose
+  // progress `status` then shows
+  duplicateOf: string | null
+  // "Still there" confirmations from citizens
+  confirmationCount: number
+  lastConfirmedAt: string | null
+}
+
+// Delivery retries and failures are internal; the reporter only needs to know
+// the report is safe until it has reached the department
+function publicStatus(status: Report["status"]): PublicReportStatus {
+  switch (status) {
+    case "delivered":
+    case "acknowledged":
+    case "resolved":
+      return status
+    default:
+      return "received"
+  }
+}
+
+function approximateLocation(report: Report): string | null {
+  // Reports geocoded against address ranges carry a house number in front of the street
+  const street = report.nearestAddress?.replace(/^\d+\s+/, "")
+  if (!street) return null
+  return report.crossStreet ? `${street} & ${report.crossStreet}` : street
+}
+
+// `original` is the report a duplicate was linked to, if it still exists
+export function toPublicReport(report: Report, original: Report | null = null): PublicReport | null {
+  if (!report.reportNumber) return null
+  return {
+    reportNumber: report.reportNumber,
+    status: publicStatus((original ?? report).status),
+    createdAt: report.createdAt,
+    updatedAt: (original ?? report).updatedAt,
+    department: report.departmentId ? getDepartment(report.departmentId)?.name ?? null : null,
+    neighborhood: report.neighborhood,
+    approximateLocation: approximateLocation(report),
+    duplicateOf: original?.reportNumber ?? null,
+    confirmationCount: (original ?? report).confirmationCount,
+    lastConfirmedAt: (original ?? report).lastConfirmedAt,
+  }
+}
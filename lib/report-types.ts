@@ -0,0 +1,66 @@
+// Report states and location sources. Kept apart from lib/reports.ts, which
+// needs the database, so client components such as the admin dashboard can use them.
+
+// `delivery_pending` reports sit in the delivery outbox; `failed` means retries were exhausted.
+// `acknowledged` and `resolved` are set by department staff after delivery. `duplicate`
+// reports were filed near an open report and are linked to it instead of being sent.
+export const REPORT_STATUSES = [
+  "received",
+  "delivered",
+  "delivery_pending",
+  "failed",
+  "acknowledged",
+  "resolved",
+  "duplicate",
+] as const
+
+export type ReportStatus = (typeof REPORT_STATUSES)[number]
+
+// Reports whose issue is still waiting on the department. New duplicates and
+// "still there" confirmations only attach to these: resolved issues may have come
+// back, and failed reports never reached the department.
+export const OPEN_REPORT_STATUSES = [
+  "received",
+  "delivered",
+  "delivery_pending",
+  "acknowledged",
+] as const satisfies readonly ReportStatus[]
+
+// The states staff may move reports to by hand; the others follow delivery
+export const STAFF_REPORT_STATUSES = ["acknowledged", "resolved"] as const satisfies readonly ReportStatus[]
+
+export type StaffReportStatus = (typeof STAFF_REPORT_STATUSES)[number]
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  received: "Received",
+  delivered: "Delivered",
+  delivery_pending: "Delivery pending",
+  failed: "Delivery failed",
+  acknowledged: "Acknowledged",
+  resolved: "Resolved",
+  duplicate: "Duplicate",
+}
+
+// Orders for the admin report list. `priority` puts the reports the most people
+// have backed, by confirming them or filing duplicates, first, with that backing
+// fading as the last confirmation gets older.
+export const REPORT_SORTS = ["newest", "priority"] as const
+
+export type ReportSort = (typeof REPORT_SORTS)[number]
+
+export const REPORT_SORT_LABELS: Record<ReportSort, string> = {
+  newest: "Newest first",
+  priority: "Most confirmed first",
+}
+
+// `gps` comes from the device, `manual` was picked on the map or typed as an
+// address, `photo` was read from the photo's EXIF GPS tags, and `asset` is the
+// registered position of the scanned QR code
+export type LocationSource = "gps" | "manual" | "photo" | "asset"
+
+export const LOCATION_SOURCE_LABELS: Record<LocationSource, string> = {
+  gps: "Device GPS",
+  manual: "Chosen manually by the reporter — verify on site",
+  photo: "Photo EXIF GPS (where the photo was taken)",
+  asset: "Registered location of the scanned QR code",
+}
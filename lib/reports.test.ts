@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { addConfirmation } from "./confirmations"
+import { getReport, listReports, settleReportDelivery, updateReportStatus } from "./reports"
+import { fileReport } from "./test-helpers"
+
+const DAY_MS = 24 * 60 * 60_000
+const now = Date.parse("2026-03-02T12:00:00.000Z")
+
+// Files a report `daysAgo` and confirms it `confirmations` times right then
+async function fileBackedReport(message: string, daysAgo: number, confirmations = 0) {
+  vi.setSystemTime(now - daysAgo * DAY_MS)
+  const report = await fileReport({ message })
+  for (let i = 0; i < confirmations; i++) {
+    await addConfirmation({ reportId: report.id, photoRef: null })
+  }
+  return report
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("listReports", () => {
+  it("sorts by priority with backing that fades since the last confirmation", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    await fileBackedReport("Backed long ago", 60, 10)
+    await fileBackedReport("Backed a month ago", 30, 5)
+    const stale = await fileBackedReport("Filed last week, confirmed today", 8)
+    await fileBackedReport("Nobody backed it", 2)
+    vi.setSystemTime(now)
+    await addConfirmation({ reportId: stale.id, photoRef: null })
+
+    const { reports } = await listReports({ sort: "priority" })
+    expect(reports.map((report) => report.message)).toEqual([
+      "Filed last week, confirmed today",
+      "Backed a month ago",
+      "Nobody backed it",
+      "Backed long ago",
+    ])
+  })
+})
+
+describe("settleReportDelivery", () => {
+  it("marks a pending report delivered or failed", async () => {
+    const delivered = await fileReport()
+    await updateReportStatus(delivered.id, "delivery_pending")
+    await settleReportDelivery(delivered.id, "delivered", "email-1")
+    expect(await getReport(delivered.id)).toMatchObject({ status: "delivered", deliveryReference: "email-1" })
+
+    const failed = await fileReport()
+    await updateReportStatus(failed.id, "delivery_pending")
+    await settleReportDelivery(failed.id, "failed")
+    expect((await getReport(failed.id))?.status).toBe("failed")
+  })
+
+  it("keeps a status staff set while the delivery was pending", async () => {
+    const resolved = await fileReport()
+    await updateReportStatus(resolved.id, "delivery_pending")
+    await updateReportStatus(resolved.id, "resolved")
+    await settleReportDelivery(resolved.id, "delivered", "email-2")
+    expect(await getReport(resolved.id)).toMatchObject({ status: "resolved", deliveryReference: "email-2" })
+
+    const acknowledged = await fileReport()
+    await updateReportStatus(acknowledged.id, "delivery_pending")
+    await updateReportStatus(acknowledged.id, "acknowledged")
+    await settleReportDelivery(acknowledged.id, "failed")
+    expect((await getReport(acknowledged.id))?.status).toBe("acknowledged")
+  })
+})
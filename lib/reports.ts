@@ -0,0 +1,485 @@
+import { getDb, type SqlValue } from "@/lib/db"
+import type { LocationEnrichment } from "@/lib/geo/enrichment"
+import { REPORT_STATUSES, type LocationSource, type ReportSort, type ReportStatus } from "@/lib/report-types"
+
+export interface Report extends LocationEnrichment {
+  id: string
+  // Short public reference shown to the reporter, e.g. "7K4M-2QXD". Null for
+  // reports stored before report numbers were introduced.
+  reportNumber: string | null
+  status: ReportStatus
+  correlationId: string
+  clientNonce: string
+  lat: number
+  lon: number
+  accuracy: number | null
+  locationSource: LocationSource
+  observedAt: string
+  message: string
+  departmentId: string | null
+  recipientEmail: string
+  // Set when the report came in through a QR code (/q/[code])
+  assetId: string | null
+  // The earlier open report this one repeats; set at submission, see lib/duplicates.ts
+  duplicateOf: string | null
+  // Ordered as the reporter arranged them; the first is the primary photo
+  photoRefs: string[]
+  deliveryReference: string | null
+  // "Still there" confirmations from citizens, see lib/confirmations.ts
+  confirmationCount: number
+  lastConfirmedAt: string | null
+  // Nearest street, with a house number in front when the centerline layer has
+  // address ranges, e.g. "123 Market St"
+  nearestAddress: string | null
+  crossStreet: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type NewReport = Pick<
+  Report,
+  | "correlationId"
+  | "clientNonce"
+  | "lat"
+  | "lon"
+  | "accuracy"
+  | "locationSource"
+  | "observedAt"
+  | "message"
+  | "departmentId"
+  | "recipientEmail"
+> &
+  Partial<LocationEnrichment> &
+  Partial<Pick<Report, "nearestAddress" | "crossStreet" | "assetId" | "duplicateOf">> & { id?: string; photoRefs?: string[] }
+
+interface ReportRow {
+  id: string
+  report_number: string | null
+  status: ReportStatus
+  correlation_id: string
+  client_nonce: string
+  lat: number
+  lon: number
+  accuracy: number | null
+  location_source: LocationSource
+  observed_at: string
+  message: string
+  department_id: string | null
+  recipient_email: string
+  asset_id: string | null
+  duplicate_of: string | null
+  delivery_reference: string | null
+  confirmation_count: number
+  last_confirmed_at: string | null
+  supervisor_district: string | null
+  neighborhood: string | null
+  police_district: string | null
+  nearest_address: string | null
+  cross_street: string | null
+  created_at: string
+  updated_at: string
+}
+
+function fromRow(row: ReportRow, photoRefs: string[]): Report {
+  return {
+    id: row.id,
+    reportNumber: row.report_number,
+    status: row.status,
+    correlationId: row.correlation_id,
+    clientNonce: row.client_nonce,
+    lat: Number(row.lat),
+    lon: Number(row.lon),
+    accuracy: row.accuracy === null ? null : Number(row.accuracy),
+    locationSource: row.location_source,
+    observedAt: row.observed_at,
+    message: row.message,
+    departmentId: row.department_id,
+    recipientEmail: row.recipient_email,
+    assetId: row.asset_id,
+    duplicateOf: row.duplicate_of,
+    photoRefs,
+    deliveryReference: row.delivery_reference,
+    confirmationCount: Number(row.confirmation_count),
+    lastConfirmedAt: row.last_confirmed_at,
+    supervisorDistrict: row.supervisor_district,
+    neighborhood: row.neighborhood,
+    policeDistrict: row.police_district,
+    nearestAddress: row.nearest_address,
+    crossStreet: row.cross_street,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function toRow(report: Report): ReportRow {
+  return {
+    id: report.id,
+    report_number: report.reportNumber,
+    status: report.status,
+    correlation_id: report.correlationId,
+    client_nonce: report.clientNonce,
+    lat: report.lat,
+    lon: report.lon,
+    accuracy: report.accuracy,
+    location_source: report.locationSource,
+    observed_at: report.observedAt,
+    message: report.message,
+    department_id: report.departmentId,
+    recipient_email: report.recipientEmail,
+    asset_id: report.assetId,
+    duplicate_of: report.duplicateOf,
+    delivery_reference: report.deliveryReference,
+    confirmation_count: report.confirmationCount,
+    last_confirmed_at: report.lastConfirmedAt,
+    supervisor_district: report.supervisorDistrict,
+    neighborhood: report.neighborhood,
+    police_district: report.policeDistrict,
+    nearest_address: report.nearestAddress,
+    cross_street: report.crossStreet,
+    created_at: report.createdAt,
+    updated_at: report.updatedAt,
+  }
+}
+
+export function newReportId(): string {
+  return crypto.randomUUID()
+}
+
+// Crockford base32: no I, L, O or U, so numbers survive being read aloud or copied by hand
+const REPORT_NUMBER_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ"
+
+// Random rather than sequential, so knowing one report number reveals nothing about others
+export function newReportNumber(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8))
+  const chars = Array.from(bytes, (byte) => REPORT_NUMBER_ALPHABET[byte % 32]).join("")
+  return `${chars.slice(0, 4)}-${chars.slice(4)}`
+}
+
+// Accepts lower case, missing dashes and the usual misreadings (O for 0, I/L for 1)
+export function normalizeReportNumber(input: string): string | null {
+  const chars = input
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, "")
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1")
+  if (chars.length !== 8 || [...chars].some((char) => !REPORT_NUMBER_ALPHABET.includes(char))) return null
+  return `${chars.slice(0, 4)}-${chars.slice(4)}`
+}
+
+export async function createReport(input: NewReport): Promise<Report> {
+  const db = await getDb()
+  const now = new Date().toISOString()
+  const report: Report = {
+    id: input.id ?? newReportId(),
+    reportNumber: newReportNumber(),
+    // Duplicates are not delivered; they follow the report they repeat
+    status: input.duplicateOf ? "duplicate" : "received",
+    correlationId: input.correlationId,
+    clientNonce: input.clientNonce,
+    lat: input.lat,
+    lon: input.lon,
+    accuracy: input.accuracy,
+    locationSource: input.locationSource,
+    observedAt: input.observedAt,
+    message: input.message,
+    departmentId: input.departmentId,
+    recipientEmail: input.recipientEmail,
+    assetId: input.assetId ?? null,
+    duplicateOf: input.duplicateOf ?? null,
+    photoRefs: input.photoRefs ?? [],
+    deliveryReference: null,
+    confirmationCount: 0,
+    lastConfirmedAt: null,
+    supervisorDistrict: input.supervisorDistrict ?? null,
+    neighborhood: input.neighborhood ?? null,
+    policeDistrict: input.policeDistrict ?? null,
+    nearestAddress: input.nearestAddress ?? null,
+    crossStreet: input.crossStreet ?? null,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  const row = toRow(report)
+  const columns = Object.keys(row)
+  // All or nothing, so the outbox never delivers a report with photos missing
+  await db.transaction(async (tx) => {
+    await tx.run(
+      `INSERT INTO reports (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+      Object.values(row) as SqlValue[],
+    )
+    for (const [position, photoRef] of report.photoRefs.entries()) {
+      await tx.run("INSERT INTO report_photos (report_id, position, photo_ref, created_at) VALUES (?, ?, ?, ?)", [
+        report.id,
+        position,
+        photoRef,
+        now,
+      ])
+    }
+  })
+
+  return report
+}
+
+// Filters for the admin report list. `from` and `to` bound `createdAt` (from
+// inclusive, to exclusive); `query` is a report number or words from the message.
+export interface ReportFilter {
+  from?: string
+  to?: string
+  departmentId?: string
+  neighborhood?: string
+  status?: ReportStatus
+  query?: string
+}
+
+function filterConditions(filter: ReportFilter): { where: string; params: SqlValue[] } {
+  const conditions: string[] = []
+  const params: SqlValue[] = []
+  if (filter.from) {
+    conditions.push("created_at >= ?")
+    params.push(filter.from)
+  }
+  if (filter.to) {
+    conditions.push("created_at < ?")
+    params.push(filter.to)
+  }
+  if (filter.departmentId !== undefined) {
+    conditions.push("department_id = ?")
+    params.push(filter.departmentId)
+  }
+  if (filter.neighborhood) {
+    conditions.push("neighborhood = ?")
+    params.push(filter.neighborhood)
+  }
+  if (filter.status) {
+    conditions.push("status = ?")
+    params.push(filter.status)
+  }
+  if (filter.query) {
+    const reportNumber = normalizeReportNumber(filter.query)
+    if (reportNumber) {
+      conditions.push("report_number = ?")
+      params.push(reportNumber)
+    } else {
+      // LOWER() keeps the match case-insensitive on Postgres too
+      conditions.push("LOWER(message) LIKE ?")
+      params.push(`%${filter.query.trim().toLowerCase()}%`)
+    }
+  }
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "", params }
+}
+
+async function withPhotos(row: ReportRow): Promise<Report> {
+  const db = await getDb()
+  const photos = await db.all<{ photo_ref: string }>(
+    "SELECT photo_ref FROM report_photos WHERE report_id = ? ORDER BY position",
+    [row.id],
+  )
+  return fromRow(row, photos.map((photo) => photo.photo_ref))
+}
+
+export async function getReport(id: string): Promise<Report | null> {
+  const db = await getDb()
+  const row = await db.get<ReportRow>("SELECT * FROM reports WHERE id = ?", [id])
+  return row ? withPhotos(row) : null
+}
+
+export async function getReportByNumber(reportNumber: string): Promise<Report | null> {
+  const normalized = normalizeReportNumber(reportNumber)
+  if (!normalized) return null
+  const db = await getDb()
+  const row = await db.get<ReportRow>("SELECT * FROM reports WHERE report_number = ?", [normalized])
+  return row ? withPhotos(row) : null
+}
+
+// Reports that are not duplicates themselves, created at or after `since`, in
+// one of `statuses` and inside a box of `radiusMeters` around the point. The box
+// is wider than the circle; callers measure the real distance.
+export async function listReportsNear(params: {
+  lat: number
+  lon: number
+  radiusMeters: number
+  since: string
+  statuses: readonly ReportStatus[]
+  departmentId?: string
+}): Promise<Report[]> {
+  const dLat = params.radiusMeters / 111_320
+  const dLon = params.radiusMeters / (111_320 * Math.cos((params.lat * Math.PI) / 180))
+  const scope = params.departmentId === undefined ? "" : " AND department_id = ?"
+  const db = await getDb()
+  const rows = await db.all<ReportRow>(
+    `SELECT * FROM reports WHERE duplicate_of IS NULL AND created_at >= ?
+     AND status IN (${params.statuses.map(() => "?").join(", ")})
+     AND lat BETWEEN ? AND ? AND lon BETWEEN ? AND ?${scope}
+     ORDER BY created_at DESC`,
+    [
+      params.since,
+      ...params.statuses,
+      params.lat - dLat,
+      params.lat + dLat,
+      params.lon - dLon,
+      params.lon + dLon,
+      ...(params.departmentId === undefined ? [] : [params.departmentId]),
+    ],
+  )
+  return Promise.all(rows.map(withPhotos))
+}
+
+// Reports linked to `id` as duplicates, oldest first
+export async function listDuplicates(id: string): Promise<Report[]> {
+  const db = await getDb()
+  const rows = await db.all<ReportRow>("SELECT * FROM reports WHERE duplicate_of = ? ORDER BY created_at", [id])
+  return Promise.all(rows.map(withPhotos))
+}
+
+export async function updateReportStatus(
+  id: string,
+  status: ReportStatus,
+  deliveryReference: string | null = null,
+): Promise<void> {
+  const db = await getDb()
+  await db.run(
+    "UPDATE reports SET status = ?, delivery_reference = COALESCE(?, delivery_reference), updated_at = ? WHERE id = ?",
+    [status, deliveryReference, new Date().toISOString(), id],
+  )
+}
+
+// Outcome of a queued delivery from /api/retry. Staff may have acknowledged or
+// resolved the report while it was pending, so the status only changes while it
+// is still `delivery_pending`. The delivery reference is kept either way.
+export async function settleReportDelivery(
+  id: string,
+  status: "delivered" | "failed",
+  deliveryReference: string | null = null,
+): Promise<void> {
+  const db = await getDb()
+  await db.run(
+    `UPDATE reports SET
+      status = CASE WHEN status = 'delivery_pending' THEN ? ELSE status END,
+      updated_at = CASE WHEN status = 'delivery_pending' THEN ? ELSE updated_at END,
+      delivery_reference = COALESCE(?, delivery_reference)
+    WHERE id = ?`,
+    [status, new Date().toISOString(), deliveryReference, id],
+  )
+}
+
+// In the priority order, a report's backing counts in full for a week after it
+// was last confirmed (or filed, when nobody has confirmed it yet), then halves
+// every week and no longer counts after PRIORITY_HALVINGS weeks
+const PRIORITY_HALF_LIFE_MS = 7 * 24 * 60 * 60_000
+const PRIORITY_HALVINGS = 6
+
+function orderBy(sort: ReportSort, now: number): { sql: string; params: SqlValue[] } {
+  if (sort === "newest") return { sql: "created_at DESC", params: [] }
+  // Everyone who backed a report: confirmations plus the duplicates linked to it.
+  // The decay is in steps, so it only compares ISO-8601 timestamps, which works
+  // the same on SQLite and Postgres.
+  const steps = Array.from({ length: PRIORITY_HALVINGS }, (_, step) => step)
+  const weight = steps.map((step) => `WHEN COALESCE(last_confirmed_at, created_at) >= ? THEN ${1 / 2 ** step}`)
+  return {
+    sql: `(confirmation_count + (SELECT COUNT(*) FROM reports AS duplicates
+      WHERE duplicates.duplicate_of = reports.id)) * CASE ${weight.join(" ")} ELSE 0 END DESC, created_at DESC`,
+    params: steps.map((step) => new Date(now - (step + 1) * PRIORITY_HALF_LIFE_MS).toISOString()),
+  }
+}
+
+export async function listReports(
+  filter: ReportFilter & { limit?: number; offset?: number; sort?: ReportSort } = {},
+): Promise<{ reports: Report[]; total: number }> {
+  const { where, params } = filterConditions(filter)
+  const db = await getDb()
+  const order = orderBy(filter.sort ?? "newest", Date.now())
+  const rows = await db.all<ReportRow>(`SELECT * FROM reports ${where} ORDER BY ${order.sql} LIMIT ? OFFSET ?`, [
+    ...params,
+    ...order.params,
+    filter.limit ?? 50,
+    filter.offset ?? 0,
+  ])
+  const count = await db.get<{ count: number | string }>(`SELECT COUNT(*) AS count FROM reports ${where}`, params)
+
+  // One query for the whole page's photos rather than one per report
+  const photos = new Map<string, string[]>()
+  if (rows.length > 0) {
+    const photoRows = await db.all<{ report_id: string; photo_ref: string }>(
+      `SELECT report_id, photo_ref FROM report_photos WHERE report_id IN (${rows.map(() => "?").join(", ")})
+       ORDER BY report_id, position`,
+      rows.map((row) => row.id),
+    )
+    for (const photo of photoRows) {
+      photos.set(photo.report_id, [...(photos.get(photo.report_id) ?? []), photo.photo_ref])
+    }
+  }
+  return {
+    reports: rows.map((row) => fromRow(row, photos.get(row.id) ?? [])),
+    total: Number(count?.count ?? 0),
+  }
+}
+
+// What the admin map needs to plot a report
+export type ReportPoint = Pick<Report, "id" | "reportNumber" | "status" | "departmentId" | "lat" | "lon" | "createdAt">
+
+// The newest `limit` matching reports as map points, and how many match in all
+export async function listReportPoints(
+  filter: ReportFilter & { limit: number },
+): Promise<{ points: ReportPoint[]; total: number }> {
+  const { where, params } = filterConditions(filter)
+  const db = await getDb()
+  const rows = await db.all<
+    Pick<ReportRow, "id" | "report_number" | "status" | "department_id" | "lat" | "lon" | "created_at">
+  >(
+    `SELECT id, report_number, status, department_id, lat, lon, created_at FROM reports ${where}
+     ORDER BY created_at DESC LIMIT ?`,
+    [...params, filter.limit],
+  )
+  const count = await db.get<{ count: number | string }>(`SELECT COUNT(*) AS count FROM reports ${where}`, params)
+  return {
+    points: rows.map((row) => ({
+      id: row.id,
+      reportNumber: row.report_number,
+      status: row.status,
+      departmentId: row.department_id,
+      lat: Number(row.lat),
+      lon: Number(row.lon),
+      createdAt: row.created_at,
+    })),
+    total: Number(count?.count ?? 0),
+  }
+}
+
+// Report counts per status and per UTC hour (e.g. "2026-03-01T17"), which
+// callers can regroup into days in any time zone
+export async function summarizeReports(
+  filter: ReportFilter = {},
+): Promise<{ byStatus: Record<ReportStatus, number>; byHour: { hour: string; count: number }[] }> {
+  const { where, params } = filterConditions(filter)
+  const db = await getDb()
+  const statuses = await db.all<{ status: ReportStatus; count: number | string }>(
+    `SELECT status, COUNT(*) AS count FROM reports ${where} GROUP BY status`,
+    params,
+  )
+  const hours = await db.all<{ hour: string; count: number | string }>(
+    `SELECT SUBSTR(created_at, 1, 13) AS hour, COUNT(*) AS count FROM reports ${where}
+     GROUP BY SUBSTR(created_at, 1, 13) ORDER BY hour`,
+    params,
+  )
+
+  const byStatus = Object.fromEntries(REPORT_STATUSES.map((status) => [status, 0])) as Record<ReportStatus, number>
+  for (const row of statuses) byStatus[row.status] = Number(row.count)
+  return { byStatus, byHour: hours.map((row) => ({ hour: row.hour, count: Number(row.count) })) }
+}
+
+// Bulk status change from the admin dashboard, limited to one department when
+// `departmentId` is given. Returns how many reports changed.
+export async function updateReportStatuses(
+  ids: string[],
+  status: ReportStatus,
+  departmentId?: string,
+): Promise<number> {
+  if (ids.length === 0) return 0
+  const db = await getDb()
+  const scope = departmentId === undefined ? "" : " AND department_id = ?"
+  const result = await db.run(
+    `UPDATE reports SET status = ?, updated_at = ? WHERE id IN (${ids.map(() => "?").join(", ")})${scope}`,
+    [status, new Date().toISOString(), ...ids, ...(departmentId === undefined ? [] : [departmentId])],
+  )
+  return result.changes
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest"
+import { createAsset } from "./assets"
+import { getScanFunnel, listAssetScanStats, recordScan, recordScanStep } from "./scans"
+import { fileReport } from "./test-helpers"
+
+const IPHONE = "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15"
+const since = new Date(Date.now() - 60 * 60_000).toISOString()
+
+describe("scan funnel", () => {
+  it("counts the steps a later step implies", async () => {
+    const asset = await createAsset({ code: "FUNNEL-1", type: "bin", lat: 37.7893, lon: -122.4012 })
+    // Reported straight from the QR code's position, without asking for a fix
+    const direct = await recordScan({ code: asset.code, assetId: asset.id, userAgent: IPHONE })
+    expect(await recordScanStep(direct, "idle")).toBe(true)
+    expect(await recordScanStep(direct, "success")).toBe(true)
+    // Failed on submit
+    const failed = await recordScan({ code: asset.code, assetId: asset.id, userAgent: IPHONE })
+    await recordScanStep(failed, "error")
+    // Only looked
+    const opened = await recordScan({ code: asset.code, assetId: asset.id, userAgent: IPHONE })
+    await recordScanStep(opened, "idle")
+    await recordScanStep(opened, "idle")
+
+    const funnel = await getScanFunnel({ since, assetId: asset.id })
+    expect(funnel.scanned).toBe(3)
+    expect(funnel.steps).toEqual({ idle: 3, "requesting-location": 2, submitting: 2, success: 1, error: 1 })
+  })
+
+  it("ignores steps for unknown or expired scans", async () => {
+    expect(await recordScanStep(crypto.randomUUID(), "idle")).toBe(false)
+    const scan = await recordScan({ code: "FUNNEL-1", assetId: null, userAgent: IPHONE })
+    expect(await recordScanStep(scan, "idle", Date.now() + 25 * 60 * 60_000)).toBe(false)
+  })
+
+  it("counts reports from the reports table, not from what the form sent back", async () => {
+    const asset = await createAsset({ code: "FUNNEL-2", type: "bench", lat: 37.7793, lon: -122.4193 })
+    const scan = await recordScan({ code: asset.code, assetId: asset.id, userAgent: IPHONE })
+    // The success beacon never arrived, and a second report came from a saved link
+    await recordScanStep(scan, "submitting")
+    await fileReport({ assetId: asset.id, locationSource: "asset" })
+    await fileReport({ assetId: asset.id, locationSource: "asset" })
+
+    expect((await getScanFunnel({ since, assetId: asset.id })).reports).toBe(2)
+    const stats = await listAssetScanStats({ since })
+    expect(stats.find((entry) => entry.code === "FUNNEL-2")).toMatchObject({ scans: 1, reports: 2 })
+  })
+})
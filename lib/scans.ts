@@ -0,0 +1,193 @@
+import { normalizeAssetCode } from "@/lib/assets"
+import { getDb, type SqlValue } from "@/lib/db"
+import { FUNNEL_STEPS, type FunnelStep } from "@/lib/submission-state"
+
+// QR scan analytics. Every visit to /q/[code] is recorded with the code, the time
+// and a coarse device class, and the report form then reports which funnel steps
+// the visit reached. Nothing identifies the person scanning: no IP address, no
+// full user agent, and the scan ID is random and never reused.
+
+export type UserAgentClass = "ios" | "android" | "desktop" | "bot" | "other"
+
+// Steps may only be added to recent scans, so old IDs cannot be replayed
+const SCAN_STEP_WINDOW_MS = 24 * 60 * 60_000
+// Longer than any code we print; anything beyond this is junk in the URL
+const MAX_CODE_LENGTH = 64
+
+export interface ScanFunnel {
+  // Scans from people, i.e. excluding bots and link previews
+  scanned: number
+  // Scans that reached each step, in funnel order
+  steps: Record<FunnelStep, number>
+  // Reports stored for QR codes, from the reports themselves rather than what
+  // the form reported back
+  reports: number
+  // Every scan, bots included, by device class
+  byUserAgent: Record<UserAgentClass, number>
+}
+
+export interface AssetScanStats {
+  code: string
+  label: string | null
+  scans: number
+  // Reports stored for the asset in the same period
+  reports: number
+  lastScanAt: string
+}
+
+// An active asset nobody has scanned lately, which often means the sticker is
+// damaged, covered or gone
+export interface SilentAsset {
+  code: string
+  label: string | null
+  lastScanAt: string | null
+}
+
+export function classifyUserAgent(userAgent: string | null): UserAgentClass {
+  if (!userAgent) return "other"
+  // Link unfurlers and scanners fetch the URL too, before or instead of a person
+  if (/bot|crawl|spider|slurp|preview|facebookexternalhit|headless|curl|wget|python/i.test(userAgent)) return "bot"
+  if (/iPhone|iPad|iPod/.test(userAgent)) return "ios"
+  if (/Android/.test(userAgent)) return "android"
+  if (/Windows|Macintosh|X11|CrOS|Linux/.test(userAgent)) return "desktop"
+  return "other"
+}
+
+// Records a scan, including scans of unknown codes, and returns its ID
+export async function recordScan(scan: {
+  code: string
+  assetId: string | null
+  userAgent: string | null
+}): Promise<string> {
+  const id = crypto.randomUUID()
+  const db = await getDb()
+  await db.run("INSERT INTO scans (id, code, asset_id, user_agent_class, created_at) VALUES (?, ?, ?, ?, ?)", [
+    id,
+    normalizeAssetCode(scan.code).slice(0, MAX_CODE_LENGTH),
+    scan.assetId,
+    classifyUserAgent(scan.userAgent),
+    new Date().toISOString(),
+  ])
+  return id
+}
+
+// The steps a scan has been through once it reaches `step`. Every submission
+// passed the location step, even when the device was never asked, and a failed
+// submission was submitted first.
+function stepsThrough(step: FunnelStep): FunnelStep[] {
+  const last = FUNNEL_STEPS.indexOf(step === "error" ? "submitting" : step)
+  const passed: FunnelStep[] = FUNNEL_STEPS.slice(0, last + 1)
+  return step === "error" ? [...passed, "error"] : passed
+}
+
+// Marks a step, and the steps before it, as reached. Repeats are ignored, so a
+// scan is counted once per step however often the form goes back and forth.
+// Returns false for unknown or expired scans.
+export async function recordScanStep(scanId: string, step: FunnelStep, now = Date.now()): Promise<boolean> {
+  const db = await getDb()
+  const scan = await db.get<{ id: string }>("SELECT id FROM scans WHERE id = ? AND created_at >= ?", [
+    scanId,
+    new Date(now - SCAN_STEP_WINDOW_MS).toISOString(),
+  ])
+  if (!scan) return false
+
+  await db.transaction(async (tx) => {
+    for (const reached of stepsThrough(step)) {
+      await tx.run(
+        `INSERT INTO scan_steps (scan_id, step, created_at) VALUES (?, ?, ?)
+         ON CONFLICT (scan_id, step) DO NOTHING`,
+        [scanId, reached, new Date(now).toISOString()],
+      )
+    }
+  })
+  return true
+}
+
+export async function getScanFunnel(filter: { since: string; assetId?: string }): Promise<ScanFunnel> {
+  const conditions = ["s.created_at >= ?"]
+  const params: SqlValue[] = [filter.since]
+  if (filter.assetId) {
+    conditions.push("s.asset_id = ?")
+    params.push(filter.assetId)
+  }
+  const where = conditions.join(" AND ")
+
+  const db = await getDb()
+  const classes = await db.all<{ user_agent_class: UserAgentClass; count: number | string }>(
+    `SELECT s.user_agent_class, COUNT(*) AS count FROM scans s WHERE ${where} GROUP BY s.user_agent_class`,
+    params,
+  )
+  const steps = await db.all<{ step: string; count: number | string }>(
+    `SELECT ss.step, COUNT(*) AS count FROM scan_steps ss
+     JOIN scans s ON s.id = ss.scan_id
+     WHERE ${where} AND s.user_agent_class <> 'bot'
+     GROUP BY ss.step`,
+    params,
+  )
+
+  const reports = await db.get<{ count: number | string }>(
+    `SELECT COUNT(*) AS count FROM reports
+     WHERE created_at >= ? AND ${filter.assetId ? "asset_id = ?" : "asset_id IS NOT NULL"}`,
+    filter.assetId ? [filter.since, filter.assetId] : [filter.since],
+  )
+
+  const byUserAgent: Record<UserAgentClass, number> = { ios: 0, android: 0, desktop: 0, bot: 0, other: 0 }
+  for (const row of classes) byUserAgent[row.user_agent_class] = Number(row.count)
+  const counts = new Map(steps.map((row) => [row.step, Number(row.count)]))
+
+  return {
+    scanned: Object.values(byUserAgent).reduce((sum, count) => sum + count, 0) - byUserAgent.bot,
+    steps: Object.fromEntries(FUNNEL_STEPS.map((step) => [step, counts.get(step) ?? 0])) as Record<
+      FunnelStep,
+      number
+    >,
+    reports: Number(reports?.count ?? 0),
+    byUserAgent,
+  }
+}
+
+// Most scanned assets first, with how many reports were filed for each
+export async function listAssetScanStats(filter: { since: string; limit?: number }): Promise<AssetScanStats[]> {
+  const db = await getDb()
+  const rows = await db.all<{
+    code: string
+    label: string | null
+    scans: number | string
+    reports: number | string
+    last_scan_at: string
+  }>(
+    `SELECT a.code, a.label, COUNT(*) AS scans, MAX(s.created_at) AS last_scan_at,
+       (SELECT COUNT(*) FROM reports r WHERE r.asset_id = a.id AND r.created_at >= ?) AS reports
+     FROM scans s
+     JOIN assets a ON a.id = s.asset_id
+     WHERE s.created_at >= ? AND s.user_agent_class <> 'bot'
+     GROUP BY a.id, a.code, a.label
+     ORDER BY scans DESC, a.code
+     LIMIT ?`,
+    [filter.since, filter.since, filter.limit ?? 50],
+  )
+  return rows.map((row) => ({
+    code: row.code,
+    label: row.label,
+    scans: Number(row.scans),
+    reports: Number(row.reports),
+    lastScanAt: row.last_scan_at,
+  }))
+}
+
+// Active assets registered before `since` without a single scan since then
+export async function listSilentAssets(filter: { since: string; limit?: number }): Promise<SilentAsset[]> {
+  const db = await getDb()
+  const rows = await db.all<{ code: string; label: string | null; last_scan_at: string | null }>(
+    `SELECT a.code, a.label, (SELECT MAX(created_at) FROM scans WHERE asset_id = a.id) AS last_scan_at
+     FROM assets a
+     WHERE a.status = 'active' AND a.created_at < ?
+       AND NOT EXISTS (
+         SELECT 1 FROM scans s WHERE s.asset_id = a.id AND s.created_at >= ? AND s.user_agent_class <> 'bot'
+       )
+     ORDER BY a.code
+     LIMIT ?`,
+    [filter.since, filter.since, filter.limit ?? 100],
+  )
+  return rows.map((row) => ({ code: row.code, label: row.label, lastScanAt: row.last_scan_at }))
+}
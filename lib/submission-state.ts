@@ -0,0 +1,30 @@
+// The report form's state machine (components/report-page.tsx). Scan analytics
+// reuses its states as funnel steps, so both sides share these definitions.
+
+export type SubmissionState =
+  | "idle"
+  | "requesting-location"
+  | "confirm-location"
+  | "manual-location"
+  | "submitting"
+  | "success"
+  | "error"
+
+// States recorded for QR scans, in funnel order. `requesting-location` stands for
+// the location step however the spot was chosen: reports from a QR code's
+// registered position or from the map never ask the device, so the server fills
+// in the steps a later step implies. `error` is where a scan ends when submitting
+// fails; the map and confirmation detours are not tracked.
+export const FUNNEL_STEPS = [
+  "idle",
+  "requesting-location",
+  "submitting",
+  "success",
+  "error",
+] as const satisfies readonly SubmissionState[]
+
+export type FunnelStep = (typeof FUNNEL_STEPS)[number]
+
+export function isFunnelStep(state: SubmissionState): state is FunnelStep {
+  return (FUNNEL_STEPS as readonly SubmissionState[]).includes(state)
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest"
+import { ApiError } from "./errors"
+import { MAX_PHOTO_BYTES, checkContentLength, parseSubmission } from "./submission"
+
+function post(contentLength: number): Request {
+  return new Request("http://localhost/api/submit", {
+    method: "POST",
+    headers: { "content-length": String(contentLength), "content-type": "application/json" },
+    body: "{}",
+  })
+}
+
+describe("checkContentLength", () => {
+  it("allows a body with the photo limit in base64 and the other fields", () => {
+    expect(() => checkContentLength(post(Math.ceil(MAX_PHOTO_BYTES * (4 / 3))))).not.toThrow()
+  })
+
+  it("rejects a larger body with 413 before reading it", async () => {
+    const request = post(10 * MAX_PHOTO_BYTES)
+    expect(() => checkContentLength(request)).toThrow(ApiError)
+    await expect(parseSubmission(request)).rejects.toMatchObject({ code: "photo_too_large", status: 413 })
+    expect(request.bodyUsed).toBe(false)
+  })
+})
@@ -0,0 +1,103 @@
+import { z } from "zod"
+import { ApiError } from "@/lib/errors"
+import { decodeDataUrl } from "@/lib/photos"
+
+// Parsing for POST /api/submit. Reports arrive either as multipart/form-data
+// with one or more binary `photo` parts, or as JSON with base64 data URLs in
+// `photos` (or a single `photoBase64`, kept for older clients). Both are
+// normalised to the same shape.
+
+export const submitFieldsSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lon: z.number().min(-180).max(180),
+  accuracy: z.number().optional(),
+  timestamp: z.number().optional(),
+  location_source: z.enum(["gps", "manual", "photo", "asset"]).default("gps"),
+  client_nonce: z.string().uuid(),
+  message: z.string().min(1),
+  departmentId: z.string().min(1),
+  turnstileToken: z.string().optional(),
+  device_id: z.string().max(100).optional(),
+  // Code of the QR sticker the report was started from, see /q/[code]
+  asset_code: z.string().max(64).optional(),
+})
+
+export type SubmitFields = z.infer<typeof submitFieldsSchema>
+
+// Raw upload as received; the declared content type is not trusted (see lib/image.ts)
+export interface UploadedPhoto {
+  bytes: Buffer
+  contentType: string
+}
+
+// Vercel rejects request bodies over 4.5MB, so stay under that by default.
+// The limit covers all photos in a report together.
+export const MAX_PHOTO_BYTES = Number(process.env.PHOTO_MAX_BYTES) || 4 * 1024 * 1024
+
+export const MAX_PHOTOS = Number(process.env.PHOTO_MAX_COUNT) || 5
+
+// Headroom for the non-photo fields and multipart framing
+const MAX_BODY_OVERHEAD_BYTES = 64 * 1024
+
+// Same shape decodeDataUrl accepts: parameters such as `;charset=` may come before `;base64`
+const dataUrlSchema = z.string().regex(/^data:[^,]*;base64,/)
+
+const jsonSchema = submitFieldsSchema
+  .extend({
+    photos: z.array(dataUrlSchema).optional(),
+    photoBase64: dataUrlSchema.optional(),
+  })
+  .refine((body) => body.photos || body.photoBase64, { message: "Photo is required", path: ["photos"] })
+
+const NUMERIC_FIELDS = ["lat", "lon", "accuracy", "timestamp"]
+
+function fieldsFromForm(form: FormData): Record<string, unknown> {
+  const fields: Record<string, unknown> = {}
+  form.forEach((value, key) => {
+    if (typeof value !== "string" || value === "") return
+    fields[key] = NUMERIC_FIELDS.includes(key) ? Number(value) : value
+  })
+  return fields
+}
+
+function checkPhotos(photos: UploadedPhoto[]): UploadedPhoto[] {
+  if (photos.length === 0 || photos.some((photo) => photo.bytes.length === 0)) {
+    throw new ApiError("bad_request", "Photo is required")
+  }
+  if (photos.length > MAX_PHOTOS) {
+    throw new ApiError("too_many_photos", `Please attach at most ${MAX_PHOTOS} photos.`)
+  }
+  if (photos.reduce((total, photo) => total + photo.bytes.length, 0) > MAX_PHOTO_BYTES) {
+    throw new ApiError("photo_too_large", "Photos are too large. Please choose fewer or smaller images.", 413)
+  }
+  return photos
+}
+
+// Rejects a body that cannot fit MAX_PHOTO_BYTES of photos before any of it is
+// read. Base64 photos in JSON bodies are a third larger than the files.
+export function checkContentLength(request: Request): void {
+  const contentLength = Number(request.headers.get("content-length"))
+  if (contentLength > MAX_PHOTO_BYTES * (4 / 3) + MAX_BODY_OVERHEAD_BYTES) {
+    throw new ApiError("photo_too_large", "Photos are too large. Please choose fewer or smaller images.", 413)
+  }
+}
+
+export async function parseSubmission(request: Request): Promise<{ fields: SubmitFields; photos: UploadedPhoto[] }> {
+  checkContentLength(request)
+
+  const contentType = request.headers.get("content-type") || ""
+
+  if (contentType.startsWith("multipart/form-data")) {
+    const form = await request.formData()
+    const fields = submitFieldsSchema.parse(fieldsFromForm(form))
+    const files = form.getAll("photo").filter((file): file is File => file instanceof Blob)
+    const photos = await Promise.all(
+      files.map(async (file) => ({ bytes: Buffer.from(await file.arrayBuffer()), contentType: file.type })),
+    )
+    return { fields, photos: checkPhotos(photos) }
+  }
+
+  const { photos, photoBase64, ...fields } = jsonSchema.parse(await request.json())
+  const dataUrls = photos ?? (photoBase64 ? [photoBase64] : [])
+  return { fields, photos: checkPhotos(dataUrls.map(decodeDataUrl)) }
+}
@@ -0,0 +1,20 @@
+import { createReport, type NewReport, type Report } from "@/lib/reports"
+
+// Fixtures shared by the unit tests, so a change to NewReport is made in one place
+
+// Stores a plain GPS report filed now, with `overrides` for what a test cares about
+export function fileReport(overrides: Partial<NewReport> = {}): Promise<Report> {
+  return createReport({
+    correlationId: crypto.randomUUID(),
+    clientNonce: crypto.randomUUID(),
+    lat: 37.7793,
+    lon: -122.4193,
+    accuracy: 10,
+    locationSource: "gps",
+    observedAt: new Date().toISOString(),
+    message: "Overflowing trash can",
+    departmentId: "public-works",
+    recipientEmail: "dispatch@example.gov",
+    ...overrides,
+  })
+}
@@ -0,0 +1,43 @@
+const DEFAULT_VERIFY_URL = "https://challenges.cloudflare.com/turnstile/v0/siteverify"
+
+export interface TurnstileResult {
+  success: boolean
+  errorCodes: string[]
+}
+
+// Turnstile is optional: without a secret key configured every request passes.
+export function isTurnstileEnabled(): boolean {
+  return !!process.env.TURNSTILE_SECRET_KEY
+}
+
+// Verify a widget token against Cloudflare siteverify. TURNSTILE_VERIFY_URL can
+// point at a local stub for testing.
+export async function verifyTurnstileToken(token: string | undefined, ip?: string): Promise<TurnstileResult> {
+  if (!token) {
+    return { success: false, errorCodes: ["missing-input-response"] }
+  }
+
+  const form = new URLSearchParams()
+  form.set("secret", process.env.TURNSTILE_SECRET_KEY || "")
+  form.set("response", token)
+  if (ip && ip !== "unknown") {
+    form.set("remoteip", ip)
+  }
+
+  try {
+    const response = await fetch(process.env.TURNSTILE_VERIFY_URL || DEFAULT_VERIFY_URL, {
+      method: "POST",
+      body: form,
+      signal: AbortSignal.timeout(5000),
+    })
+
+    if (!response.ok) {
+      return { success: false, errorCodes: [`http-${response.status}`] }
+    }
+
+    const result = await response.json()
+    return { success: result.success === true, errorCodes: result["error-codes"] ?? [] }
+  } catch {
+    return { success: false, errorCodes: ["verifier-unreachable"] }
+  }
+}
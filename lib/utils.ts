@@ -4,3 +4,13 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Decodes a dynamic route segment, or returns null when its percent-encoding is
+// malformed (e.g. "%E0%A4%A"), which decodeURIComponent throws on
+export function decodeRouteParam(value: string): string | null {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,114 @@
+// Replaces the bundled boundary layers in lib/geo/layers with the official
+// DataSF exports, downloaded as GeoJSON:
+//
+//   node scripts/import-district-layers.mjs \
+//     --supervisor supervisor-districts.geojson \   (Supervisor Districts (2022), f2zs-jevy)
+//     --police police-districts.geojson \           (Current Police Districts, wkhw-cjsf)
+//     --neighborhoods neighborhoods.geojson         (Analysis Neighborhoods, j2bu-swwd)
+//
+// Any of the three can be given on its own. Boundaries are simplified to about
+// 2 m and rounded to 5 decimals, which keeps the layers small enough to bundle
+// without moving a report across a line by more than that.
+
+import { readFileSync, writeFileSync } from "node:fs"
+
+const LAYERS = new URL("../lib/geo/layers/", import.meta.url)
+const TOLERANCE_DEGREES = 0.00002
+
+// "BAYVIEW" -> "Bayview", "TENDERLOIN" -> "Tenderloin"
+const titleCase = (value) => value.toLowerCase().replace(/(^|[\s/-])([a-z])/g, (_, before, c) => before + c.toUpperCase())
+
+// id and name for each layer's features, from the DataSF column names
+const IMPORTS = {
+  supervisor: {
+    file: "supervisor-districts.json",
+    properties(row) {
+      const id = String(Number(row.sup_dist ?? row.sup_dist_num ?? row.supervisor))
+      return { id, name: `District ${id}` }
+    },
+  },
+  police: {
+    file: "police-districts.json",
+    properties(row) {
+      const district = String(row.district).trim()
+      return { id: district.toUpperCase(), name: titleCase(district) }
+    },
+  },
+  neighborhoods: {
+    file: "analysis-neighborhoods.json",
+    properties(row) {
+      const name = String(row.nhood).trim()
+      return { id: name, name }
+    },
+  },
+}
+
+// Ramer-Douglas-Peucker on one ring, in degrees
+function simplify(points) {
+  if (points.length <= 4) return points
+  const keep = new Array(points.length).fill(false)
+  keep[0] = keep[points.length - 1] = true
+  const stack = [[0, points.length - 1]]
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()
+    const [ax, ay] = points[first]
+    const [bx, by] = points[last]
+    const length = Math.hypot(bx - ax, by - ay)
+    let farthest = -1
+    let farthestDistance = 0
+    for (let i = first + 1; i < last; i++) {
+      const [px, py] = points[i]
+      const distance =
+        length === 0 ? Math.hypot(px - ax, py - ay) : Math.abs((bx - ax) * (ay - py) - (ax - px) * (by - ay)) / length
+      if (distance > farthestDistance) {
+        farthest = i
+        farthestDistance = distance
+      }
+    }
+    if (farthest !== -1 && farthestDistance > TOLERANCE_DEGREES) {
+      keep[farthest] = true
+      stack.push([first, farthest], [farthest, last])
+    }
+  }
+  return points.filter((_, i) => keep[i])
+}
+
+const round = ([lon, lat]) => [Number(lon.toFixed(5)), Number(lat.toFixed(5))]
+
+function polygons(geometry) {
+  const parts = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates
+  return parts
+    .map((rings) => rings.map((ring) => simplify(ring).map(round)).filter((ring) => ring.length >= 4))
+    .filter((rings) => rings.length > 0)
+}
+
+function importLayer(name, input) {
+  const { file, properties } = IMPORTS[name]
+  const source = JSON.parse(readFileSync(input, "utf8"))
+  const features = source.features.map((feature) => ({
+    type: "Feature",
+    properties: properties(feature.properties),
+    geometry: { type: "MultiPolygon", coordinates: polygons(feature.geometry) },
+  }))
+  const invalid = features.filter(({ properties: { id } }) => !id || id === "NaN" || id === "undefined")
+  if (features.length === 0 || invalid.length > 0) {
+    throw new Error(`${input}: expected a DataSF ${name} export with an id on every feature`)
+  }
+  features.sort((a, b) => a.properties.id.localeCompare(b.properties.id, "en", { numeric: true }))
+
+  // One feature per line, like the other bundled layers
+  const lines = features.map((feature) => JSON.stringify(feature))
+  writeFileSync(new URL(file, LAYERS), `{"type":"FeatureCollection","features":[\n${lines.join(",\n")}\n]}\n`)
+  console.log(`${file}: ${features.length} features`)
+}
+
+const args = process.argv.slice(2)
+if (args.length === 0 || args.length % 2 !== 0) {
+  console.error("Usage: node scripts/import-district-layers.mjs [--supervisor f] [--police f] [--neighborhoods f]")
+  process.exit(1)
+}
+for (let i = 0; i < args.length; i += 2) {
+  const name = args[i].replace(/^--/, "")
+  if (!IMPORTS[name]) throw new Error(`Unknown layer ${args[i]}`)
+  importLayer(name, args[i + 1])
+}
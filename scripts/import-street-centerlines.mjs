@@ -0,0 +1,63 @@
+// Replaces lib/geo/layers/street-centerlines.json with the DataSF "Streets –
+// Active and Retired" centerlines (dataset 3psu-pn9h), exported as GeoJSON:
+//
+//   node scripts/import-street-centerlines.mjs ~/Downloads/streets.geojson
+//
+// Keeps active segments with a name and their left/right address ranges
+// (lf_fadd, lf_toadd, rt_fadd, rt_toadd), which the reverse geocoder uses to
+// interpolate house numbers. Coordinates are rounded to 5 decimals (about 1 m).
+
+import { readFileSync, writeFileSync } from "node:fs"
+
+const [input] = process.argv.slice(2)
+if (!input) {
+  console.error("Usage: node scripts/import-street-centerlines.mjs <streets.geojson>")
+  process.exit(1)
+}
+
+const OUTPUT = new URL("../lib/geo/layers/street-centerlines.json", import.meta.url)
+
+// "02ND ST" -> "2nd St", "O'FARRELL ST" -> "O'Farrell St"
+function streetName(raw) {
+  return raw
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/\b0+(\d)/g, "$1")
+    .replace(/(^|[\s'-])([a-z])/g, (_, before, letter) => before + letter.toUpperCase())
+}
+
+const range = (value) => Math.max(0, Math.round(Number(value) || 0))
+const round = ([lon, lat]) => [Number(lon.toFixed(5)), Number(lat.toFixed(5))]
+
+const source = JSON.parse(readFileSync(input, "utf8"))
+const features = []
+for (const { properties, geometry } of source.features) {
+  const name = properties.streetname || properties.street
+  if (!name || !geometry || String(properties.active).toLowerCase() === "false") continue
+  const lines = geometry.type === "LineString" ? [geometry.coordinates] : geometry.coordinates
+  const ranges = {
+    leftFrom: range(properties.lf_fadd),
+    leftTo: range(properties.lf_toadd),
+    rightFrom: range(properties.rt_fadd),
+    rightTo: range(properties.rt_toadd),
+  }
+  for (const line of lines) {
+    if (line.length < 2) continue
+    features.push({
+      type: "Feature",
+      // Zero ranges are left out, as on the hand-drawn segments
+      properties: {
+        street: streetName(name),
+        ...Object.fromEntries(Object.entries(ranges).filter(([, value]) => value > 0)),
+      },
+      geometry: { type: "LineString", coordinates: line.map(round) },
+    })
+  }
+}
+if (features.length === 0) throw new Error(`${input}: no named street segments`)
+
+// One feature per line, like the other bundled layers
+const lines = features.map((feature) => JSON.stringify(feature))
+writeFileSync(OUTPUT, `{"type":"FeatureCollection","features":[\n${lines.join(",\n")}\n]}\n`)
+console.log(`street-centerlines.json: ${features.length} segments`)
@@ -0,0 +1,142 @@
+// Minimal OpenID Connect issuer for trying staff single sign-on locally.
+// It signs in whoever types an email address, so never point production at it.
+//
+//   npm run mock-oidc
+//   OIDC_ISSUER=http://localhost:4010 OIDC_CLIENT_ID=street-feedback npm run dev
+
+import { createHash, generateKeyPairSync, randomBytes, sign } from "node:crypto"
+import { createServer } from "node:http"
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 4010)
+const ISSUER = `http://localhost:${PORT}`
+const KEY_ID = "mock-oidc"
+const CODE_TTL_MS = 60_000
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 })
+// Authorization code -> what the token endpoint needs to answer for it
+const codes = new Map()
+
+const base64url = (value) => Buffer.from(value).toString("base64url")
+
+function signIdToken(claims) {
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid: KEY_ID }))
+  const payload = base64url(JSON.stringify(claims))
+  const signature = sign("RSA-SHA256", Buffer.from(`${header}.${payload}`), privateKey).toString("base64url")
+  return `${header}.${payload}.${signature}`
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+function sendJson(response, status, body) {
+  response.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" })
+  response.end(JSON.stringify(body))
+}
+
+async function readForm(request) {
+  let body = ""
+  for await (const chunk of request) body += chunk
+  return new URLSearchParams(body)
+}
+
+const AUTHORIZE_PARAMS = ["client_id", "redirect_uri", "state", "nonce", "code_challenge"]
+
+function authorizeForm(params) {
+  const hidden = AUTHORIZE_PARAMS.map(
+    (name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) ?? "")}">`,
+  ).join("")
+  return `<!doctype html><title>Mock sign-in</title>
+<form method="post" style="font-family:sans-serif;max-width:320px;margin:80px auto">
+  <h1>Mock identity provider</h1>
+  <label>Email <input name="email" type="email" required autofocus></label>
+  ${hidden}
+  <button>Sign in</button>
+</form>`
+}
+
+async function handle(request, response) {
+  const url = new URL(request.url, ISSUER)
+
+  if (url.pathname === "/.well-known/openid-configuration") {
+    return sendJson(response, 200, {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      jwks_uri: `${ISSUER}/jwks`,
+      response_types_supported: ["code"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      code_challenge_methods_supported: ["S256"],
+    })
+  }
+
+  if (url.pathname === "/jwks") {
+    const key = { ...publicKey.export({ format: "jwk" }), kid: KEY_ID, use: "sig", alg: "RS256" }
+    return sendJson(response, 200, { keys: [key] })
+  }
+
+  if (url.pathname === "/authorize" && request.method === "GET") {
+    response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" })
+    return response.end(authorizeForm(url.searchParams))
+  }
+
+  if (url.pathname === "/authorize" && request.method === "POST") {
+    const form = await readForm(request)
+    const code = randomBytes(16).toString("base64url")
+    codes.set(code, {
+      email: form.get("email"),
+      clientId: form.get("client_id"),
+      redirectUri: form.get("redirect_uri"),
+      nonce: form.get("nonce"),
+      codeChallenge: form.get("code_challenge"),
+      expiresAt: Date.now() + CODE_TTL_MS,
+    })
+    const redirect = new URL(form.get("redirect_uri"))
+    redirect.searchParams.set("code", code)
+    redirect.searchParams.set("state", form.get("state") ?? "")
+    response.writeHead(303, { Location: redirect.toString() })
+    return response.end()
+  }
+
+  if (url.pathname === "/token" && request.method === "POST") {
+    const form = await readForm(request)
+    const grant = codes.get(form.get("code"))
+    codes.delete(form.get("code"))
+    const challenge = createHash("sha256").update(form.get("code_verifier") ?? "").digest("base64url")
+    if (
+      !grant ||
+      grant.expiresAt < Date.now() ||
+      grant.redirectUri !== form.get("redirect_uri") ||
+      grant.codeChallenge !== challenge
+    ) {
+      return sendJson(response, 400, { error: "invalid_grant" })
+    }
+    const now = Math.floor(Date.now() / 1000)
+    const idToken = signIdToken({
+      iss: ISSUER,
+      sub: createHash("sha256").update(grant.email).digest("hex"),
+      aud: grant.clientId,
+      iat: now,
+      exp: now + 300,
+      nonce: grant.nonce,
+      email: grant.email,
+      email_verified: true,
+    })
+    return sendJson(response, 200, {
+      access_token: randomBytes(16).toString("base64url"),
+      token_type: "Bearer",
+      id_token: idToken,
+    })
+  }
+
+  response.writeHead(404)
+  response.end()
+}
+
+createServer((request, response) => {
+  handle(request, response).catch((error) => {
+    console.error(error)
+    response.writeHead(500)
+    response.end()
+  })
+}).listen(PORT, () => console.log(`Mock OIDC issuer on ${ISSUER}`))
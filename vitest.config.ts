@@ -0,0 +1,17 @@
+import { fileURLToPath } from "url"
+import { defineConfig } from "vitest/config"
+
+// Unit tests for the server-side modules under lib/. They sit next to the module
+// they cover as `<module>.test.ts`.
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    include: ["lib/**/*.test.ts"],
+    // Each test file gets its own module graph, so modules that go through
+    // getDb() get a fresh, fully migrated database per file
+    env: { SQLITE_PATH: ":memory:" },
+  },
+})